@@ -1,50 +1,467 @@
 import {mapEncoder} from "./src/MapEncoder";
 import {LazyWriter} from "./src/util/LazyWriter";
 import {StreamReader} from "./src/util/StreamReader";
-import {mapDecoder} from "./src/MapDecoder";
+import {versionRegistry} from "./src/VersionRegistry";
+import {metadataCodec} from "./src/MetadataCodec";
+import {layerCodec} from "./src/LayerCodec";
+import {extensionRegistry} from "./src/ExtensionRegistry";
+import {Crc32} from "./src/util/Crc32";
+import {mapValidator} from "./src/MapValidator";
+import {streamDecoder} from "./src/StreamDecoder";
+import {regionDecoder} from "./src/RegionDecoder";
+import {ValidationException} from "./src/util/CodecException";
+import {workerClient} from "./src/WorkerClient";
+import {workerHost} from "./src/WorkerHost";
+import {patchCodec} from "./src/PatchCodec";
+import {imageConverter} from "./src/ImageConverter";
+import {pngCodec} from "./src/PngCodec";
+import {jsonCodec} from "./src/JsonCodec";
+import {tileAttributeRegistry} from "./src/TileAttributes";
+import {tileLayerCodec} from "./src/TileLayerCodec";
+import {mapTransformer} from "./src/MapTransformer";
+import {mapSimplifier} from "./src/MapSimplifier";
+import {mapAnalyzer} from "./src/MapAnalyzer";
+import {mapGenerator} from "./src/MapGenerator";
+import {PaletteRegistry, paletteRegistry} from "./src/PaletteRegistry";
 
-// Only bump this for breaking changes, decompression should always be backwards compatible
-const CURRENT_VERSION = 0;
-const MINIMUM_VERSION = 0;
+export {extensionRegistry} from "./src/ExtensionRegistry";
+export {tileAttributeRegistry} from "./src/TileAttributes";
+export {PaletteRegistry, paletteRegistry} from "./src/PaletteRegistry";
+export type {ExtensionChunk} from "./src/ExtensionRegistry";
+export {wrapNodeWorker} from "./src/WorkerClient";
+export {CodecException, ChecksumException, TruncatedDataException, UnsupportedVersionException, TypeIndexException, PatchMismatchException, ValidationException, UnknownPaletteException} from "./src/util/CodecException";
+
+// Only bump this for breaking changes, register a decoder for the new version in VersionRegistry
+const CURRENT_VERSION = 6;
 
 /**
  * Compresses map data
+ *
+ * Types no tile uses are not stored, so decoding returns only the used types with the tiles renumbered accordingly.
+ *
  * @param data map data to compress
+ * @param options compression options, defaults to the balanced preset
  * @returns binary data
+ * @throws ValidationException if the map data is invalid, see {@link validateMap}
+ * @throws CodecException if the options are invalid
  */
-export function encodeMap(data: RawMapData): Uint8Array {
+export function encodeMap(data: RawMapData, options: EncodeOptions = {}): Uint8Array {
+	const errors = validateMap(data).filter(issue => issue.severity === "error");
+	if (errors.length > 0) {
+		throw new ValidationException(errors);
+	}
+
 	const writer = new LazyWriter();
 
 	writer.writeBits(4, CURRENT_VERSION);
 	writer.writeBits(16, data.width);
 	writer.writeBits(16, data.height);
-	mapEncoder.writeCompressed(writer, data);
+	metadataCodec.write(writer, data.metadata ?? {});
+	const types = mapEncoder.writeCompressed(writer, data, options);
+
+	const hasLayers = layerCodec.hasLayers(data);
+	const extensions = tileAttributeRegistry.withAttributeChunk({...data, types});
+	const hasExtensions = Object.keys(extensions).length > 0;
+	const hasTileLayers = tileLayerCodec.hasTileLayers(data);
+	writer.writeBoolean(hasLayers);
+	writer.writeBoolean(hasExtensions);
+	writer.writeBoolean(hasTileLayers);
+	writer.writeBits(5, 0); // reserved for future use
+	if (hasLayers) {
+		layerCodec.write(writer, data);
+	}
+	if (hasExtensions) {
+		extensionRegistry.writeChunks(writer, extensions);
+	}
+	if (hasTileLayers) {
+		tileLayerCodec.write(writer, data, options);
+	}
 
-	writer.writeBits(8, 0); // reserved for future use
+	const payload = writer.compress();
+	const result = new Uint8Array(payload.length + 4);
+	result.set(payload);
+	new DataView(result.buffer).setUint32(payload.length, Crc32.compute(payload), true);
+	return result;
+}
 
-	return writer.compress();
+/**
+ * Compresses map data in a worker, see {@link setMapWorkerFactory}
+ *
+ * The tiles buffer is transferred to the worker without copying, so data.tiles is unusable afterwards.
+ * Tiles viewing part of a larger buffer are copied instead.
+ *
+ * @param data map data to compress
+ * @param options compression options, cancellation signal and progress listener
+ * @returns binary data
+ * @throws ValidationException if the map data is invalid, see {@link validateMap}
+ * @throws CodecException if the options are invalid or no worker is configured
+ */
+export function encodeMapAsync(data: RawMapData, options: AsyncEncodeOptions = {}): Promise<Uint8Array> {
+	return workerClient.encode(data, options);
 }
 
 /**
- * Decompresses map data
- * @param data binary data
- * @returns raw map data
+ * Decompresses map data in a worker, see {@link setMapWorkerFactory}
+ *
+ * The worker resolves palette references from its own {@link paletteRegistry}, so palettes have to be registered in the worker script.
+ *
+ * @param data binary data, copied to the worker
+ * @param options cancellation signal
+ * @returns raw map data, upgraded to the current format
+ * @throws UnknownPaletteException if the map references a palette that is not registered in the worker
+ * @throws CodecException if the map data is corrupted or no worker is configured
  */
-export function decodeMap(data: Uint8Array): RawMapData {
-	const reader = new StreamReader(data);
+export function decodeMapAsync(data: Uint8Array, options: AsyncDecodeOptions = {}): Promise<RawMapData> {
+	return workerClient.decode(data, options);
+}
+
+/**
+ * Sets how workers for {@link encodeMapAsync} and {@link decodeMapAsync} are created
+ *
+ * Browser: () => new Worker(new URL("./mapWorker.js", import.meta.url), {type: "module"})
+ * Node: () => wrapNodeWorker(new Worker("./mapWorker.js"))
+ *
+ * One worker is used per running request, finished workers are reused.
+ *
+ * @param factory function creating a worker whose script calls {@link serveMapWorker}
+ */
+export function setMapWorkerFactory(factory: () => WorkerLike): void {
+	workerClient.setFactory(factory);
+}
+
+/**
+ * Handles requests of {@link encodeMapAsync} and {@link decodeMapAsync}, call this from the worker script
+ *
+ * Extension chunks and palettes have to be registered in the worker as well.
+ *
+ * @param scope self in web workers, parentPort of worker_threads in node
+ */
+export function serveMapWorker(scope: WorkerScopeLike): void {
+	workerHost.serve(scope, encodeMap, decodeMap);
+}
 
-	const version = reader.readBits(4);
-	if (version > CURRENT_VERSION || version < MINIMUM_VERSION) {
-		throw new Error(`Unsupported map version: ${version}`);
+/**
+ * Creates a compact patch turning one map into another, e.g. for undo history or editor sync
+ * @param base map the patch will be applied to
+ * @param target map the patch produces
+ * @returns binary patch, only valid for the base map
+ * @throws ValidationException if the target map is invalid, see {@link validateMap}
+ */
+export function diffMaps(base: RawMapData, target: RawMapData): Uint8Array {
+	const errors = validateMap(target).filter(issue => issue.severity === "error");
+	if (errors.length > 0) {
+		throw new ValidationException(errors);
 	}
+	return patchCodec.diff(base, target);
+}
+
+/**
+ * Applies a patch created by {@link diffMaps}
+ * @param base map the patch was created for, it is not modified
+ * @param patch binary patch
+ * @returns patched map
+ * @throws PatchMismatchException if the patch was created for a different map
+ * @throws ChecksumException if the patch is corrupted
+ */
+export function applyPatch(base: RawMapData, patch: Uint8Array): RawMapData {
+	return patchCodec.apply(base, patch);
+}
 
-	const width = reader.readBits(16);
-	const height = reader.readBits(16);
-	const result = mapDecoder.readCompressed(reader, width, height);
+/**
+ * Cuts a rectangle out of a map, points and regions outside of it are removed
+ * @param data map to crop, it is not modified
+ * @param x left edge of the rectangle
+ * @param y top edge of the rectangle
+ * @param width width of the rectangle
+ * @param height height of the rectangle
+ * @returns map data of the rectangle
+ * @throws CodecException if the rectangle is not inside the map
+ */
+export function cropMap(data: RawMapData, x: number, y: number, width: number, height: number): RawMapData {
+	return mapTransformer.crop(data, x, y, width, height);
+}
+
+/**
+ * Adds tiles around a map
+ * @param data map to pad, it is not modified
+ * @param sides number of tiles to add on each side
+ * @param fillType type of the new tiles, tile layers are 0 on them
+ * @returns padded map data
+ * @throws TypeIndexException if the fill type doesn't exist
+ * @throws CodecException if a side is negative or the result exceeds the 16-bit dimension limit
+ */
+export function padMap(data: RawMapData, sides: MapSides, fillType: number): RawMapData {
+	return mapTransformer.pad(data, sides, fillType);
+}
 
-	reader.readBits(8); // reserved for future use
+/**
+ * Scales a map with nearest-neighbour sampling
+ *
+ * When shrinking, spawns that end up on a tile that isn't conquerable are removed, as are duplicated points.
+ *
+ * @param data map to resize, it is not modified
+ * @param width new width
+ * @param height new height
+ * @returns resized map data
+ * @throws CodecException if the new dimensions are not between 1 and 65535
+ */
+export function resizeMap(data: RawMapData, width: number, height: number): RawMapData {
+	return mapTransformer.resize(data, width, height);
+}
 
-	return result;
+/**
+ * Rotates a map clockwise in steps of 90°
+ * @param data map to rotate, it is not modified
+ * @param quarterTurns number of clockwise quarter turns, negative values turn counterclockwise
+ * @returns rotated map data
+ * @throws CodecException if the number of turns is not an integer
+ */
+export function rotateMap(data: RawMapData, quarterTurns: number): RawMapData {
+	return mapTransformer.rotate(data, quarterTurns);
+}
+
+/**
+ * Mirrors a map, e.g. to create the other half of a fair 1v1 map with {@link stitchMaps}
+ * @param data map to mirror, it is not modified
+ * @param direction horizontal swaps left and right, vertical swaps top and bottom
+ * @returns mirrored map data
+ */
+export function mirrorMap(data: RawMapData, direction: "horizontal" | "vertical"): RawMapData {
+	return mapTransformer.mirror(data, direction);
+}
+
+/**
+ * Places two maps next to each other
+ *
+ * Types equal in every field, including attributes, are merged and tiles of the second map are remapped.
+ * Metadata and extensions of the first map are kept, tile layers are joined by name.
+ *
+ * @param first left or top map, it is not modified
+ * @param second right or bottom map, it is not modified
+ * @param direction horizontal places the second map to the right, vertical below the first one
+ * @returns stitched map data
+ * @throws CodecException if the touching edges differ in length or the result exceeds the 16-bit limits
+ */
+export function stitchMaps(first: RawMapData, second: RawMapData, direction: "horizontal" | "vertical"): RawMapData {
+	return mapTransformer.stitch(first, second, direction);
+}
+
+/**
+ * Removes small zones and smooths jagged borders, which reduces the number of lines the encoder has to store
+ *
+ * This changes the map, so it is never applied by {@link encodeMap}. Both maps are encoded to report the size.
+ *
+ * @param data map to simplify, must be valid, it is not modified
+ * @param options simplification controls, the defaults change nothing
+ * @returns simplified map, number of changed tiles and encoded sizes
+ * @throws ValidationException if the map data is invalid, see {@link validateMap}
+ * @throws TypeIndexException if a locked type doesn't exist
+ * @throws CodecException if an option is invalid
+ */
+export function simplifyMap(data: RawMapData, options: SimplifyOptions = {}): SimplifyResult {
+	const {data: simplified, changedTiles} = mapSimplifier.simplify(data, options);
+	const originalSize = encodeMap(data, options.encodeOptions).length;
+	const simplifiedSize = encodeMap(simplified, options.encodeOptions).length;
+	return {data: simplified, changedTiles, originalSize, simplifiedSize, savedBytes: originalSize - simplifiedSize};
+}
+
+/**
+ * Groups tiles into landmasses, water bodies and impassable areas, measures them and finds chokepoints
+ * @param data map to analyze
+ * @param options chokepoint detection settings
+ * @returns areas with their size, perimeter and neighbours, the area of each tile and chokepoints
+ * @throws CodecException if an option is invalid
+ */
+export function analyzeMap(data: RawMapData, options: AnalysisOptions = {}): MapAnalysis {
+	return mapAnalyzer.analyze(data, options);
+}
+
+/**
+ * Scores how fair a set of spawns is by the territory each one can claim first
+ *
+ * Every conquerable tile goes to the spawn with the lowest summed expansion cost to reach it.
+ *
+ * @param data map to score
+ * @param spawns spawns to compare, defaults to the spawns of the map
+ * @returns territory of each spawn and a score from 0 to 1, 1 meaning all territories are equally large
+ * @throws CodecException if there are no spawns or a spawn isn't on a conquerable tile inside the map
+ */
+export function scoreSpawns(data: RawMapData, spawns: MapPoint[] = data.spawns ?? []): SpawnFairness {
+	return mapAnalyzer.scoreSpawns(data, spawns);
+}
+
+/**
+ * Generates a map from a seed, the same seed and options produce the same map in every JavaScript engine
+ * @param options size, seed, palette and shape of the map
+ * @returns generated map data, ready for {@link encodeMap}
+ * @throws CodecException if an option is invalid
+ */
+export function generateMap(options: GenerateOptions): RawMapData {
+	return mapGenerator.generate(options);
+}
+
+/**
+ * Converts map data to the readable JSON format described by schema/map.schema.json
+ *
+ * Rows are run-length encoded and keys are written in a fixed order, so the text is stable for version control.
+ * Extensions are written as they are unless their chunk converts them, see {@link ExtensionChunk.toJSON}.
+ *
+ * @param data map data to convert
+ * @returns formatted JSON text
+ */
+export function mapToJSON(data: RawMapData): string {
+	return jsonCodec.write(data);
+}
+
+/**
+ * Reads map data from the JSON format written by {@link mapToJSON}
+ * @param json JSON text
+ * @returns map data, check it with {@link validateMap} or let {@link encodeMap} do so
+ * @throws UnsupportedVersionException if the JSON layout version is not supported
+ * @throws TypeIndexException if a row references an unknown type
+ * @throws CodecException if the JSON is malformed
+ */
+export function mapFromJSON(json: string): RawMapData {
+	return jsonCodec.read(json);
+}
+
+/**
+ * Builds map data from an image, e.g. one decoded with {@link decodePng}
+ * @param image image with one pixel per tile
+ * @param palette tile types and the colors pixels are matched against
+ * @returns map data and one warning per color that fell back to the nearest type
+ * @throws CodecException if a type has no color or two types share a color
+ */
+export function imageToMap(image: RgbaImage, palette: ImagePalette): ImageImport {
+	return imageConverter.toMap(image, palette);
+}
+
+/**
+ * Renders map tiles to an image, use {@link encodePng} to save it
+ * @param data map data to render
+ * @param colors colors of the tile types
+ * @returns image with one opaque pixel per tile
+ * @throws CodecException if a type has no color
+ */
+export function renderMap(data: RawMapData, colors: ColorTable): RgbaImage {
+	return imageConverter.render(data, colors);
+}
+
+/**
+ * Decodes a non-interlaced PNG image with 8-bit samples or a palette
+ * @param data PNG file contents
+ * @returns image with RGBA pixels
+ * @throws CodecException if the file is not a supported PNG image
+ */
+export function decodePng(data: Uint8Array): RgbaImage {
+	return pngCodec.decode(data);
+}
+
+/**
+ * Encodes an image as PNG, using a palette if it has at most 256 colors
+ * @param image image to encode, alpha is ignored
+ * @returns PNG file contents
+ */
+export function encodePng(image: RgbaImage): Uint8Array {
+	return pngCodec.encode(image);
+}
+
+/**
+ * Checks map data for problems before encoding
+ *
+ * Errors prevent encoding, warnings point out data that is likely unintended
+ *
+ * @param data map data to check
+ * @returns all found problems, empty if the map is valid
+ */
+export function validateMap(data: RawMapData): ValidationIssue[] {
+	return mapValidator.validate(data);
+}
+
+/**
+ * Decompresses map data of any supported version
+ * @param data binary data
+ * @param options registry to resolve palette references from
+ * @returns raw map data, upgraded to the current format
+ * @throws UnsupportedVersionException if the map version is not supported
+ * @throws ChecksumException if the map data is corrupted
+ * @throws TruncatedDataException if the map data ends unexpectedly
+ * @throws TypeIndexException if the tiles reference an unknown type
+ * @throws UnknownPaletteException if the map references a palette that is not registered
+ */
+export function decodeMap(data: Uint8Array, options: DecodeOptions = {}): RawMapData {
+	return versionRegistry.decode(data, options.palettes ?? paletteRegistry);
+}
+
+/**
+ * Decompresses map data progressively, without keeping the whole map in memory
+ *
+ * The handler receives the header first, then bands of finished rows from top to bottom.
+ * The checksum is verified last, so rows must be treated as provisional until the promise resolves.
+ * Tile attributes are stored after the tiles, the header's types carry none and the stored values are
+ * returned as the tileAttributes extension, one object per type. Values equal to their default are not stored.
+ *
+ * @param source complete buffer or stream of binary data
+ * @param handler receiver of the header and rows, decoding pauses until returned promises resolve
+ * @param bandHeight minimum number of rows per band, defaults to one chunk row
+ * @param options registry to resolve palette references from
+ * @returns spawns, regions, tile layers and other sections stored after the tiles
+ * @throws UnknownPaletteException if the map references a palette that is not registered
+ * @throws CodecException if the map data is corrupted or uses an unsupported version
+ */
+export function decodeMapStream(source: Uint8Array | ReadableStream<Uint8Array>, handler: MapStreamHandler, bandHeight: number = 32, options: DecodeOptions = {}): Promise<MapSections> {
+	return streamDecoder.decode(source, handler, bandHeight, options.palettes ?? paletteRegistry);
+}
+
+/**
+ * Decompresses only the tiles inside a rectangle, without allocating the whole map
+ *
+ * Tile attributes are stored after the tiles, so the types carry none.
+ *
+ * @param data binary data
+ * @param x left edge of the rectangle
+ * @param y top edge of the rectangle
+ * @param width width of the rectangle
+ * @param height height of the rectangle
+ * @param options registry to resolve palette references from
+ * @returns map data of the rectangle with the full type map, sections after the tiles are not included
+ * @throws UnknownPaletteException if the map references a palette that is not registered
+ * @throws CodecException if the rectangle is not inside the map or the map data is corrupted
+ */
+export function decodeMapRegion(data: Uint8Array, x: number, y: number, width: number, height: number, options: DecodeOptions = {}): RawMapData {
+	return regionDecoder.decode(data, x, y, width, height, options.palettes ?? paletteRegistry);
+}
+
+/**
+ * Reads the header and type map of an encoded map without decoding its tiles
+ *
+ * Tile attributes are stored after the tiles, so the summary's types carry none.
+ *
+ * @param data binary data
+ * @param options registry to resolve palette references from
+ * @returns summary of the map
+ * @throws UnsupportedVersionException if the map version is not supported
+ * @throws UnknownPaletteException if the map references a palette that is not registered
+ */
+export function inspectMap(data: Uint8Array, options: DecodeOptions = {}): MapSummary {
+	return versionRegistry.inspect(data, options.palettes ?? paletteRegistry);
+}
+
+/**
+ * Reads only the format version of an encoded map
+ * @param data binary data
+ * @returns format version the map was encoded with
+ */
+export function getMapVersion(data: Uint8Array): number {
+	return new StreamReader(data).readBits(4);
+}
+
+/**
+ * @param data binary data
+ * @returns whether the map was encoded with an older format version and should be re-encoded
+ */
+export function isOutdatedMap(data: Uint8Array): boolean {
+	return getMapVersion(data) < CURRENT_VERSION;
 }
 
 export interface RawMapData {
@@ -54,13 +471,367 @@ export interface RawMapData {
 	tiles: Uint16Array;
 	/** List of tile types, index = value in tile map */
 	types: TileType[];
+	/** Descriptive information about the map, empty for maps encoded before version 1 */
+	metadata?: MapMetadata;
+	/** Predefined spawn locations, each must be on a conquerable tile */
+	spawns?: MapPoint[];
+	/** Fixed capital locations */
+	capitals?: MapPoint[];
+	/** Named areas such as continents or straits */
+	regions?: MapRegion[];
+	/** Additional per-tile values such as elevation, resources or initial ownership, keyed by name. At most 255 layers */
+	tileLayers?: {[name: string]: TileLayer};
+	/** Data of registered extension chunks, keyed by chunk name. Unknown chunks are skipped when decoding */
+	extensions?: {[name: string]: unknown};
+}
+
+export interface SimplifyOptions {
+	/** Zones with fewer tiles are absorbed into the neighbouring type they share the longest border with. Defaults to 1 */
+	minZoneArea?: number;
+	/** Number of passes giving each tile the type of at least 5 of its 8 neighbours, smooths coastlines. Defaults to 0 */
+	smoothingPasses?: number;
+	/** Type ids whose tiles are never changed and never spread, e.g. rivers. Tiles holding a spawn are always kept */
+	lockedTypes?: number[];
+	/** Options used to encode both maps for the size report */
+	encodeOptions?: EncodeOptions;
+}
+
+export interface SimplifyResult {
+	/** Simplified copy of the map */
+	data: RawMapData;
+	/** Number of tiles whose type changed */
+	changedTiles: number;
+	/** Encoded size of the original map in bytes */
+	originalSize: number;
+	/** Encoded size of the simplified map in bytes */
+	simplifiedSize: number;
+	/** originalSize - simplifiedSize, usually positive */
+	savedBytes: number;
+}
+
+export interface AnalysisOptions {
+	/** Widest passage in tiles still reported as a chokepoint. Defaults to 3 */
+	maxChokepointWidth?: number;
+	/** Minimum number of tiles on both sides of a chokepoint, smaller dead ends are ignored. Defaults to 100 */
+	minChokepointSide?: number;
+}
+
+/** land is conquerable, water is navigable but not conquerable, impassable is neither */
+export type MapAreaKind = "land" | "water" | "impassable";
+
+export interface MapAnalysis {
+	/** Connected areas of the same kind, index = area id */
+	areas: MapArea[];
+	/** Area id of each tile */
+	areaMap: Uint32Array;
+	chokepoints: Chokepoint[];
+}
+
+export interface MapArea {
+	id: number;
+	kind: MapAreaKind;
+	/** Number of tiles */
+	area: number;
+	/** Number of tile edges bordering other areas or the map edge */
+	perimeter: number;
+	/** Areas sharing an edge with this one ordered by id, together they form the adjacency graph */
+	neighbours: {area: number, borderLength: number}[];
+}
+
+export interface Chokepoint {
+	/** Id of the land or water area containing the passage */
+	area: number;
+	/** Tile in the middle of the passage */
+	x: number;
+	y: number;
+	/** Approximate width of the passage in tiles */
+	width: number;
+	/** Number of tiles on each side of the passage, smaller side first */
+	sides: [number, number];
+}
+
+export interface SpawnFairness {
+	/** Result per spawn, in the order of the given spawns */
+	spawns: SpawnTerritory[];
+	/** Smallest territory divided by the largest one, 1 is perfectly fair */
+	score: number;
+	/** Conquerable tiles no spawn can reach */
+	unclaimedTiles: number;
+}
+
+export interface SpawnTerritory {
+	x: number;
+	y: number;
+	/** Number of tiles this spawn reaches first */
+	territory: number;
+	/** Average summed expansion cost from the spawn to its tiles */
+	averageCost: number;
+}
+
+export interface GenerateOptions {
+	width: number;
+	height: number;
+	/** Any integer, only the lower 32 bits are used */
+	seed: number;
+	/** Tile types by height, lowest first. Defaults to ocean, coast, plains, hills and mountains */
+	palette?: TerrainBand[];
+	/** Number of noise layers, more add finer detail. 1-16, defaults to 5 */
+	octaves?: number;
+	/** Size of the largest features in tiles, defaults to 64 */
+	scale?: number;
+	/** horizontal mirrors the left half onto the right, vertical the top onto the bottom, rotational turns it by 180°. Defaults to none */
+	symmetry?: "none" | "horizontal" | "vertical" | "rotational";
+	/** Connects all landmasses with paths of the lowest conquerable type */
+	connectLand?: boolean;
+}
+
+export interface TerrainBand {
+	/** Highest height of this band, heights are normalized to 0-1. Must be ascending, the last band takes everything above */
+	maxHeight: number;
+	type: TileType;
+}
+
+export interface ValidationIssue {
+	severity: "error" | "warning";
+	/** Machine readable issue type, e.g. "value-out-of-range" */
+	code: string;
+	/** Path of the offending value, e.g. "types[3].colorVariant" */
+	path: string;
+	message: string;
+}
+
+export interface MapSummary {
+	/** Format version the map was encoded with */
+	version: number;
+	width: number;
+	height: number;
+	/** List of tile types, index = value in tile map */
+	types: TileType[];
+	/** Empty for maps encoded before version 1 */
+	metadata: MapMetadata;
+	/** Direction in which gaps between lines are filled */
+	fillDirection: "leftToRight" | "topToBottom";
+	/** Whether lines use fixed-size fields or adaptive entropy coding */
+	lineCoding: "raw" | "entropy";
+	/** Edge length of the square chunks lines are sorted into */
+	chunkSize: number;
+	/** Maximum number of tiles per line */
+	maxLineLength: number;
+	/** Number of encoded border lines */
+	lineCount: number;
+	/** Palette the type map references, missing if all types are stored in the map */
+	palette?: {id: string, version: number};
+}
+
+/**
+ * fast: quick autosaves, skips the direction and coding comparisons and searches a small radius
+ * balanced: default trade-off between size and speed
+ * max: smallest output for published maps, searches a large radius and allows longer lines
+ */
+export type EncodePreset = "fast" | "balanced" | "max";
+
+export interface EncodeOptions {
+	/** Base settings, explicit options below override the preset. Defaults to balanced */
+	preset?: EncodePreset;
+	/** Fill direction, auto picks the cheaper one */
+	direction?: "auto" | "leftToRight" | "topToBottom";
+	/** Line coding, auto picks the smaller one */
+	lineCoding?: "auto" | "raw" | "entropy";
+	/** Maximum gap in tiles bridged when joining border points into lines, 1-64 */
+	searchRadius?: number;
+	/** Edge length of the square chunks lines are sorted into, power of two 2-32768 */
+	chunkSize?: number;
+	/** Maximum number of tiles per line, power of two 2-32768 */
+	maxLineLength?: number;
+	/** Called while zones and lines are calculated, at most once per percent of each phase. Throwing aborts encoding */
+	onProgress?: (progress: EncodeProgress) => void;
+	/**
+	 * Shared palette to reference types from instead of storing them, decoders need it registered in {@link paletteRegistry}.
+	 * Types that differ from every palette type are still stored in full
+	 */
+	palette?: TilePalette;
+}
+
+export interface DecodeOptions {
+	/** Registry to resolve palette references from, defaults to {@link paletteRegistry} */
+	palettes?: PaletteRegistry;
+}
+
+export interface EncodeProgress {
+	/** Zones are found first, then the lines along their borders */
+	phase: "zones" | "lines";
+	/** Scanned tiles for zones, processed border points for lines */
+	completed: number;
+	total: number;
+}
+
+export interface AsyncEncodeOptions extends EncodeOptions {
+	/** Cancels encoding, terminating the worker */
+	signal?: AbortSignal;
+}
+
+export interface AsyncDecodeOptions {
+	/** Cancels decoding, terminating the worker */
+	signal?: AbortSignal;
+}
+
+export interface WorkerEvent {
+	/** Message data of message events */
+	data?: unknown;
+	/** Error message of error events */
+	message?: string;
+}
+
+/** Main thread side of a worker, web workers match this directly, use {@link wrapNodeWorker} for worker_threads */
+export interface WorkerLike {
+	postMessage(message: unknown, transfer: ArrayBuffer[]): void;
+	addEventListener(type: "message" | "error", listener: (event: WorkerEvent) => void): void;
+	removeEventListener(type: "message" | "error", listener: (event: WorkerEvent) => void): void;
+	terminate(): void;
+}
+
+/** Worker side of a worker, matched by self in web workers and parentPort of worker_threads */
+export type WorkerScopeLike = {
+	postMessage(message: unknown, transfer: ArrayBuffer[]): void;
+	addEventListener(type: "message", listener: (event: WorkerEvent) => void): void;
+} | {
+	postMessage(message: unknown, transfer: ArrayBuffer[]): void;
+	on(event: "message", listener: (value: unknown) => void): void;
+};
+
+/** Subset of the worker_threads Worker used by {@link wrapNodeWorker} */
+export interface NodeWorkerLike {
+	postMessage(message: unknown, transfer: ArrayBuffer[]): void;
+	on(event: "message" | "error", listener: (value: unknown) => void): void;
+	off(event: "message" | "error", listener: (value: unknown) => void): void;
+	ref(): void;
+	unref(): void;
+	terminate(): unknown;
+}
+
+export interface MapMetadata {
+	/** Display name of the map, max 64 bytes (utf-8) */
+	name?: string;
+	/** Max 32 bytes (utf-8) */
+	author?: string;
+	/** Max 1024 bytes (utf-8) */
+	description?: string;
+	/** Creation time in milliseconds since the unix epoch */
+	createdAt?: number;
+	/** Last modification time in milliseconds since the unix epoch */
+	modifiedAt?: number;
+	/** Version of the editor that last saved the map, max 16 bytes (utf-8) */
+	editorVersion?: string;
+}
+
+export interface MapStreamHandler {
+	/**
+	 * Called once the header has been read
+	 * @param summary summary of the map
+	 */
+	onHeader?(summary: MapSummary): void | Promise<void>;
+
+	/**
+	 * Called for each band of finished rows, in order from top to bottom
+	 * @param y first row of the band
+	 * @param height number of rows in the band
+	 * @param tiles tile types of the rows, row-major
+	 */
+	onRows(y: number, height: number, tiles: Uint16Array): void | Promise<void>;
+}
+
+export interface RgbaImage {
+	width: number;
+	height: number;
+	/** 4 bytes per pixel, row-major */
+	pixels: Uint8Array;
+}
+
+/** Colors in the format #rrggbb by tile base color id, each list is indexed by the tile variant */
+export type ColorTable = {[colorBase: string]: string[]};
+
+export interface ImagePalette {
+	/** Tile types of the map, pixels are matched against the color of their colorBase and colorVariant */
+	types: TileType[];
+	colors: ColorTable;
+}
+
+export interface ImageImport {
+	data: RawMapData;
+	/** One warning per color that is not in the palette */
+	warnings: ImageWarning[];
+}
+
+export interface ImageWarning {
+	/** Color missing from the palette, #rrggbb */
+	color: string;
+	/** Type with the nearest color, used for all pixels of the color */
+	type: number;
+	pixelCount: number;
+	/** First pixel of the color */
+	x: number;
+	y: number;
+	message: string;
+}
+
+/** Optional data stored after the tiles */
+export type MapSections = Pick<RawMapData, "spawns" | "capitals" | "regions" | "tileLayers" | "extensions">;
+
+/** Tile counts for each side of a map, missing sides are 0 */
+export interface MapSides {
+	left?: number;
+	top?: number;
+	right?: number;
+	bottom?: number;
+}
+
+export interface MapPoint {
+	x: number;
+	y: number;
+}
+
+export interface MapRegion {
+	/** Max 32 bytes (utf-8) */
+	name: string;
+	/** Tile indices belonging to the region, sorted ascending and without duplicates after decoding or reading JSON */
+	tiles: number[];
+}
+
+export interface TileLayer {
+	/** Bits per value, 1-16 */
+	bits: number;
+	/** One value per tile in the same order as tiles, each smaller than 2^bits */
+	values: Uint16Array;
+	/** How the values are stored, defaults to auto. Decoded layers keep the requested encoding */
+	encoding?: TileLayerEncoding;
+}
+
+/**
+ * Storage of a tile layer
+ *
+ * lines reuses the zone and line scheme of the tiles and suits region-like layers such as ownership,
+ * rle and packed suit noisy layers such as elevation. auto picks the smallest.
+ */
+export type TileLayerEncoding = "auto" | "lines" | "rle" | "packed";
+
+/**
+ * Set of tile types shared between maps, maps referencing it only store the index of each type.
+ * Decoders need the same id, version and types registered, the attributes of palette types are ignored
+ */
+export interface TilePalette {
+	/** Max 32 bytes (utf-8) */
+	id: string;
+	/** 0-65535, bump when changing the types */
+	version: number;
+	/** Max 65535 types */
+	types: TileType[];
 }
 
 export interface TileType {
-	/** Max 32 characters */
+	/** Max 32 bytes (utf-8) */
 	name: string;
 	/**
-	 * Tile base color id, max 16 characters
+	 * Tile base color id, max 16 bytes (utf-8)
 	 */
 	colorBase: string;
 	/**
@@ -73,4 +844,23 @@ export interface TileType {
 	expansionTime: number;
 	/** The relative cost to expand the tile, 0-255 higher meaning more expensive, 50 being the default */
 	expansionCost: number;
+	/** Game specific values, each attribute must be defined in {@link tileAttributeRegistry} before encoding */
+	attributes?: {[name: string]: TileAttributeValue};
+}
+
+/**
+ * Storage type of a tile attribute
+ *
+ * float16 is half precision, exact for integers up to 2048 and values like 0.5 or 1.25
+ */
+export type TileAttributeType = "bool" | "uint8" | "uint16" | "float16" | "string";
+
+export type TileAttributeValue = boolean | number | string;
+
+export interface TileAttributeDefinition {
+	/** Max 32 bytes (utf-8) */
+	name: string;
+	type: TileAttributeType;
+	/** Added to decoded types without a stored value, e.g. maps created before the attribute existed */
+	defaultValue: TileAttributeValue;
 }
\ No newline at end of file
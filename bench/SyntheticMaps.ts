@@ -0,0 +1,81 @@
+import type {RawMapData, TileType} from "../MapCodec";
+import {Random} from "../src/util/Random";
+
+const TERRAIN: TileType[] = [
+	{name: "Deep Water", colorBase: "water", colorVariant: 0, conquerable: false, navigable: true, expansionTime: 50, expansionCost: 50},
+	{name: "Shallow Water", colorBase: "water", colorVariant: 1, conquerable: false, navigable: true, expansionTime: 50, expansionCost: 50},
+	{name: "Beach", colorBase: "sand", colorVariant: 0, conquerable: true, navigable: false, expansionTime: 40, expansionCost: 40},
+	{name: "Plains", colorBase: "grass", colorVariant: 0, conquerable: true, navigable: false, expansionTime: 50, expansionCost: 50},
+	{name: "Forest", colorBase: "grass", colorVariant: 3, conquerable: true, navigable: false, expansionTime: 70, expansionCost: 60},
+	{name: "Mountains", colorBase: "rock", colorVariant: 0, conquerable: true, navigable: false, expansionTime: 120, expansionCost: 100}
+];
+
+/**
+ * Creates a terrain map from layered value noise, with ragged coastlines, lakes and many small islands
+ * @param width map width
+ * @param height map height
+ * @param seed noise seed
+ * @returns map data
+ */
+export function createTerrainMap(width: number, height: number, seed: number): RawMapData {
+	const random = new Random(seed);
+	const octaves = [64, 32, 16, 8, 4].map(size => {
+		const gridWidth = Math.ceil(width / size) + 1;
+		const grid = new Float32Array(gridWidth * (Math.ceil(height / size) + 1));
+		for (let i = 0; i < grid.length; i++) grid[i] = random.next();
+		return {size, gridWidth, grid};
+	});
+
+	const tiles = new Uint16Array(width * height);
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x < width; x++) {
+			let value = 0;
+			let weight = 1;
+			for (const {size, gridWidth, grid} of octaves) {
+				const gx = Math.floor(x / size), gy = Math.floor(y / size);
+				const fx = x / size - gx, fy = y / size - gy;
+				const i = gy * gridWidth + gx;
+				const top = grid[i] + (grid[i + 1] - grid[i]) * fx;
+				const bottom = grid[i + gridWidth] + (grid[i + gridWidth + 1] - grid[i + gridWidth]) * fx;
+				value += (top + (bottom - top) * fy) * weight;
+				weight /= 2;
+			}
+			value /= 1.9375;
+			tiles[y * width + x] = value < 0.42 ? 0 : value < 0.48 ? 1 : value < 0.5 ? 2 : value < 0.6 ? 3 : value < 0.68 ? 4 : 5;
+		}
+	}
+	return {width, height, tiles, types: TERRAIN.slice()};
+}
+
+/**
+ * Creates a map of large convex regions, similar to political or continent maps
+ * @param width map width
+ * @param height map height
+ * @param seed placement seed
+ * @param regionCount number of regions
+ * @returns map data
+ */
+export function createRegionMap(width: number, height: number, seed: number, regionCount: number): RawMapData {
+	const random = new Random(seed);
+	const centers: {x: number, y: number, type: number}[] = [];
+	for (let i = 0; i < regionCount; i++) {
+		centers.push({x: random.next() * width, y: random.next() * height, type: i % TERRAIN.length});
+	}
+
+	const tiles = new Uint16Array(width * height);
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x < width; x++) {
+			let best = 0;
+			let bestDistance = Infinity;
+			for (let i = 0; i < centers.length; i++) {
+				const distance = (x - centers[i].x) ** 2 + (y - centers[i].y) ** 2;
+				if (distance < bestDistance) {
+					bestDistance = distance;
+					best = i;
+				}
+			}
+			tiles[y * width + x] = centers[best].type;
+		}
+	}
+	return {width, height, tiles, types: TERRAIN.slice()};
+}
\ No newline at end of file
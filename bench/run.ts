@@ -0,0 +1,58 @@
+/**
+ * Encoder benchmarks for synthetic and real maps
+ *
+ * Usage, from the repository root with typescript and @types/node installed:
+ *   tsc -p bench --outDir <dir> --module commonjs --moduleResolution node10 --verbatimModuleSyntax false
+ *   node <dir>/bench/run.js [--sizes 512,1024,2048] [--presets fast,balanced,max] [map.bin ...]
+ * Real maps are passed as encoded files, they are decoded once and then re-encoded.
+ */
+import type {EncodePreset, RawMapData} from "../MapCodec";
+import {readFileSync} from "fs";
+import {basename} from "path";
+import {decodeMap, encodeMap} from "../MapCodec";
+import {createRegionMap, createTerrainMap} from "./SyntheticMaps";
+
+const options = parseArguments(process.argv.slice(2));
+const maps: {name: string, data: () => RawMapData}[] = [];
+for (const size of options.sizes) {
+	maps.push({name: `terrain ${size}x${size}`, data: () => createTerrainMap(size, size, size)});
+	maps.push({name: `regions ${size}x${size}`, data: () => createRegionMap(size, size, size, Math.ceil(size / 16))});
+}
+for (const file of options.files) {
+	maps.push({name: basename(file), data: () => decodeMap(new Uint8Array(readFileSync(file)))});
+}
+
+console.log(["map", "preset", "encode ms", "decode ms", "bytes", "bits/tile"].join("\t"));
+for (const map of maps) {
+	const data = map.data();
+	for (const preset of options.presets) {
+		const encodeStart = performance.now();
+		const encoded = encodeMap(data, {preset});
+		const encodeTime = performance.now() - encodeStart;
+
+		const decodeStart = performance.now();
+		decodeMap(encoded);
+		const decodeTime = performance.now() - decodeStart;
+
+		const bitsPerTile = encoded.length * 8 / data.tiles.length;
+		console.log([map.name, preset, encodeTime.toFixed(0), decodeTime.toFixed(0), encoded.length, bitsPerTile.toFixed(4)].join("\t"));
+	}
+}
+
+/**
+ * @param args command line arguments
+ * @returns map sizes, presets and map files to benchmark
+ */
+function parseArguments(args: string[]): {sizes: number[], presets: EncodePreset[], files: string[]} {
+	const result = {sizes: [512, 1024, 2048, 4096], presets: ["fast", "balanced", "max"] as EncodePreset[], files: [] as string[]};
+	for (let i = 0; i < args.length; i++) {
+		if (args[i] === "--sizes") {
+			result.sizes = (args[++i] ?? "").split(",").map(Number);
+		} else if (args[i] === "--presets") {
+			result.presets = (args[++i] ?? "").split(",") as EncodePreset[];
+		} else {
+			result.files.push(args[i]);
+		}
+	}
+	return result;
+}
\ No newline at end of file
@@ -0,0 +1,114 @@
+import type {ColorTable, ImageImport, ImagePalette, MapMetadata, MapPoint, MapRegion, RawMapData, RgbaImage, TileType} from "../MapCodec";
+import {CodecException, imageToMap} from "../MapCodec";
+
+class MapDocuments {
+	/**
+	 * Reads a map document, a palette with nothing but types and colors is a valid document
+	 * @param json parsed JSON of the document
+	 * @returns document
+	 * @throws CodecException if the document has no types or no color table
+	 */
+	parse(json: unknown): MapDocument {
+		const document = json as MapDocument;
+		if (!document || !Array.isArray(document.types) || document.types.length === 0) {
+			throw new CodecException("Map document must contain a non-empty types array");
+		}
+		if (typeof document.colors !== "object" || document.colors === null || Array.isArray(document.colors)) {
+			throw new CodecException("Map document must contain a colors object, mapping each colorBase to its variant colors");
+		}
+		return document;
+	}
+
+	/**
+	 * Creates the document stored next to a map image
+	 * @param data map data
+	 * @param colors colors of the types
+	 * @returns JSON serializable document, tile layers and extensions are left out
+	 */
+	create(data: RawMapData, colors: ColorTable): MapDocument {
+		const document: MapDocument = {types: data.types, colors};
+		if (data.metadata && Object.keys(data.metadata).length > 0) document.metadata = data.metadata;
+		if (data.spawns) document.spawns = data.spawns;
+		if (data.capitals) document.capitals = data.capitals;
+		if (data.regions) document.regions = data.regions;
+		return document;
+	}
+
+	/**
+	 * Builds map data from an image and the types, colors and sections of a document
+	 * @param image image with one pixel per tile
+	 * @param document types, colors and optional sections of the map
+	 * @returns map data, not yet validated, and warnings for colors missing from the document
+	 * @throws CodecException if a type has no color or two types share a color
+	 */
+	toMap(image: RgbaImage, document: MapDocument): ImageImport {
+		const result = imageToMap(image, document);
+		if (document.metadata) result.data.metadata = document.metadata;
+		if (document.spawns) result.data.spawns = document.spawns;
+		if (document.capitals) result.data.capitals = document.capitals;
+		if (document.regions) result.data.regions = document.regions;
+		return result;
+	}
+
+	/**
+	 * Creates a color table for the types of a map, colors missing from the palette are generated
+	 * @param types types of the map
+	 * @param palette optional colors to keep
+	 * @returns colors of the used base colors and variants, distinct from each other
+	 */
+	completeColors(types: TileType[], palette: ColorTable = {}): ColorTable {
+		const colors: ColorTable = {};
+		const used = new Set<string>();
+		const missing: TileType[] = [];
+		for (const type of types) {
+			const color = Object.prototype.hasOwnProperty.call(palette, type.colorBase) ? palette[type.colorBase][type.colorVariant] : undefined;
+			colors[type.colorBase] ??= [];
+			if (color) {
+				colors[type.colorBase][type.colorVariant] = color;
+				used.add(color.toLowerCase());
+			} else {
+				missing.push(type);
+			}
+		}
+
+		let hue = 0;
+		for (const type of missing) {
+			while (!colors[type.colorBase][type.colorVariant]) {
+				hue += 0.618033988749895; // golden ratio spreads consecutive hues evenly
+				const color = this.hsvToColor(hue % 1, 0.4 + 0.5 * (hue * 7 % 1), 0.5 + 0.5 * (hue * 13 % 1));
+				if (!used.has(color)) {
+					colors[type.colorBase][type.colorVariant] = color;
+					used.add(color);
+				}
+			}
+		}
+		return colors;
+	}
+
+	/**
+	 * @param hue hue, 0-1
+	 * @param saturation saturation, 0-1
+	 * @param value value, 0-1
+	 * @returns color in the format #rrggbb
+	 * @private
+	 */
+	private hsvToColor(hue: number, saturation: number, value: number): string {
+		const channel = (n: number) => {
+			const k = (n + hue * 6) % 6;
+			return Math.round(255 * (value - value * saturation * Math.max(0, Math.min(k, 4 - k, 1))));
+		};
+		return `#${(channel(5) << 16 | channel(3) << 8 | channel(1)).toString(16).padStart(6, "0")}`;
+	}
+}
+
+/**
+ * JSON stored next to a map image, palettes only contain types and colors
+ */
+export type MapDocument = ImagePalette & {
+	metadata?: MapMetadata;
+	spawns?: MapPoint[];
+	capitals?: MapPoint[];
+	regions?: MapRegion[];
+}
+
+export const mapDocuments = new MapDocuments();
\ No newline at end of file
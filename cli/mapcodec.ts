@@ -0,0 +1,380 @@
+/**
+ * Command line interface for map files
+ *
+ * Usage: npx tsx cli/mapcodec.ts <command> [options] <file or folder ...>
+ * Run with --help for the list of commands and options.
+ */
+import type {EncodeOptions, EncodePreset, MapSummary, RawMapData} from "../MapCodec";
+import type {MapDocument} from "./MapDocument";
+import {existsSync, mkdirSync, readdirSync, readFileSync, statSync, writeFileSync} from "fs";
+import {basename, dirname, extname, join} from "path";
+import {decodeMap, decodePng, encodeMap, encodePng, inspectMap, isOutdatedMap, renderMap, validateMap} from "../MapCodec";
+import {mapDocuments} from "./MapDocument";
+
+/** Every input was processed successfully */
+const EXIT_OK = 0;
+/** At least one input failed, the other inputs were still processed */
+const EXIT_FAILED = 1;
+/** The command line is invalid, nothing was processed */
+const EXIT_USAGE = 2;
+
+const USAGE = `Usage: mapcodec <command> [options] <file or folder ...>
+
+Commands:
+  encode   Encode PNG images to maps, colors are looked up in a palette
+           (--palette, or <name>.json next to each image). Colors missing from
+           the palette use the type with the nearest color and print a warning
+  decode   Decode maps to a PNG image and a <name>.json document with types,
+           colors, metadata, spawns and regions. The document is a valid palette,
+           a palette only needs types and colors ({colorBase: ["#rrggbb", ...]}).
+           Tile layers and extensions are not part of either file, decode warns
+           when it drops them
+  info     Print header, type table and size of maps
+  verify   Check checksums and round-trip maps through the current encoder
+  convert  Re-encode maps of any supported version in the current version
+
+Folders are expanded to the .png (encode) or .bin (other commands) files they contain.
+
+Options:
+  --json                 Print one JSON array with a result per input to stdout
+  -o, --output <file>    Output file, only for a single input
+  --out-dir <folder>     Folder for output files, defaults to the input's folder
+  --in-place             convert: overwrite the input files
+  --palette <file>       encode: palette for all images
+                         decode: colors to keep, missing colors are generated
+  --preset <name>        fast, balanced or max
+  --direction <value>    auto, leftToRight or topToBottom
+  --line-coding <value>  auto, raw or entropy
+  --search-radius <n>    --chunk-size <n>    --max-line-length <n>
+  -h, --help             Show this help
+
+Extension chunks are not registered in the CLI, convert drops them.
+
+Exit codes: ${EXIT_OK} all inputs succeeded, ${EXIT_FAILED} at least one input failed, ${EXIT_USAGE} invalid command line`;
+
+const COMMANDS: {[name: string]: Command} = {
+	encode: {input: ".png", run: encodeFile, describe: result => `${result.file} -> ${result["output"]} (${result["bytes"]} bytes)`},
+	decode: {input: ".bin", run: decodeFile, describe: result => `${result.file} -> ${result["output"]}, ${result["document"]}`},
+	info: {input: ".bin", run: inspectFile, describe: describeSummary},
+	verify: {input: ".bin", run: verifyFile, describe: result => `${result.file}: ok, version ${result["version"]}, ${result["bytes"]} bytes, ${result["reencodedBytes"]} bytes re-encoded`},
+	convert: {input: ".bin", run: convertFile, describe: result => `${result.file} -> ${result["output"]}, version ${result["fromVersion"]} -> ${result["toVersion"]}, ${result["fromBytes"]} -> ${result["bytes"]} bytes`}
+};
+
+process.exitCode = main(process.argv.slice(2));
+
+/**
+ * @param args command line arguments
+ * @returns exit code
+ */
+function main(args: string[]): number {
+	let options: CliOptions;
+	try {
+		options = parseArguments(args);
+	} catch (e) {
+		console.error(`${errorMessage(e)}\n\n${USAGE}`);
+		return EXIT_USAGE;
+	}
+	if (options.help) {
+		console.log(USAGE);
+		return EXIT_OK;
+	}
+
+	const command = COMMANDS[options.command];
+	const results = collectInputs(options.inputs, command.input).map(file => {
+		try {
+			return command.run(file, options);
+		} catch (e) {
+			return {file, ok: false, error: errorMessage(e)};
+		}
+	});
+
+	if (options.json) {
+		console.log(JSON.stringify(results, null, "\t"));
+	} else {
+		for (const result of results) {
+			if (result.ok) {
+				console.log(command.describe(result));
+			} else {
+				console.error(`${result.file}: ${result.error}`);
+			}
+			for (const warning of (result["warnings"] ?? []) as string[]) {
+				console.error(`${result.file}: warning: ${warning}`);
+			}
+		}
+	}
+	return results.every(result => result.ok) ? EXIT_OK : EXIT_FAILED;
+}
+
+/**
+ * @param file PNG image
+ * @param options command line options
+ * @returns written map file and its size
+ */
+function encodeFile(file: string, options: CliOptions): CommandResult {
+	const documentFile = options.palette ?? replaceExtension(file, ".json");
+	if (!existsSync(documentFile)) {
+		throw new Error(`No palette found, pass --palette or add ${documentFile}`);
+	}
+	const {data, warnings} = mapDocuments.toMap(decodePng(readFileSync(file)), readDocument(documentFile));
+	const issues = validateMap(data).filter(issue => issue.severity === "warning");
+	const encoded = encodeMap(data, options.encode);
+	const output = outputPath(file, ".bin", options);
+	writeFileSync(output, encoded);
+	return {file, ok: true, output, bytes: encoded.length, warnings: [...warnings.map(warning => warning.message), ...issues.map(issue => `${issue.path}: ${issue.message}`)]};
+}
+
+/**
+ * @param file map file
+ * @param options command line options
+ * @returns written image and document
+ */
+function decodeFile(file: string, options: CliOptions): CommandResult {
+	const data = decodeMap(readFileSync(file));
+	const colors = mapDocuments.completeColors(data.types, options.palette ? readDocument(options.palette).colors : undefined);
+	const output = outputPath(file, ".png", options);
+	const document = replaceExtension(output, ".json");
+	writeFileSync(output, encodePng(renderMap(data, colors)));
+	writeFileSync(document, JSON.stringify(mapDocuments.create(data, colors), null, "\t"));
+	const warnings = [
+		...Object.keys(data.tileLayers ?? {}).map(name => `tile layer ${name} is not stored in the image or document and was dropped`),
+		...Object.keys(data.extensions ?? {}).map(name => `extension ${name} is not stored in the image or document and was dropped`)
+	];
+	return {file, ok: true, output, document, width: data.width, height: data.height, warnings};
+}
+
+/**
+ * @param file map file
+ * @returns summary of the map and its size
+ */
+function inspectFile(file: string): CommandResult {
+	const data = readFileSync(file);
+	const summary = inspectMap(data);
+	return {file, ok: true, ...summary, outdated: isOutdatedMap(data), bytes: data.length, bitsPerTile: data.length * 8 / (summary.width * summary.height)};
+}
+
+/**
+ * Decodes a map, which verifies its checksum, then checks that re-encoding it loses nothing
+ * @param file map file
+ * @param options command line options
+ * @returns sizes before and after re-encoding
+ */
+function verifyFile(file: string, options: CliOptions): CommandResult {
+	const data = readFileSync(file);
+	const decoded = decodeMap(data);
+	const warnings = validateMap(decoded).filter(issue => issue.severity === "warning");
+	const reencoded = encodeMap(decoded, options.encode);
+	const mismatch = findMismatch(decoded, decodeMap(reencoded));
+	const result: CommandResult = {
+		file,
+		ok: mismatch === null,
+		version: inspectMap(data).version,
+		bytes: data.length,
+		reencodedBytes: reencoded.length,
+		warnings: warnings.map(issue => `${issue.path}: ${issue.message}`)
+	};
+	if (mismatch !== null) {
+		result.error = `Round trip changed ${mismatch}`;
+	}
+	return result;
+}
+
+/**
+ * @param file map file
+ * @param options command line options
+ * @returns written map file and the versions and sizes before and after
+ */
+function convertFile(file: string, options: CliOptions): CommandResult {
+	const data = readFileSync(file);
+	const fromVersion = inspectMap(data).version;
+	const encoded = encodeMap(decodeMap(data), options.encode);
+	const output = options.inPlace ? file : outputPath(file, ".bin", options);
+	writeFileSync(output, encoded);
+	return {file, ok: true, output, fromVersion, toVersion: inspectMap(encoded).version, fromBytes: data.length, bytes: encoded.length};
+}
+
+/**
+ * @param result result of the info command
+ * @returns human readable summary
+ */
+function describeSummary(result: CommandResult): string {
+	const summary = result as CommandResult & MapSummary;
+	const lines = [
+		summary.file,
+		`  version ${summary.version}${result["outdated"] ? " (outdated)" : ""}, ${summary.width}x${summary.height}, ${result["bytes"]} bytes, ${(result["bitsPerTile"] as number).toFixed(4)} bits/tile`,
+		`  ${summary.lineCount} lines, ${summary.lineCoding} coded, filled ${summary.fillDirection}, chunk size ${summary.chunkSize}, max line length ${summary.maxLineLength}`
+	];
+	for (const [key, value] of Object.entries(summary.metadata)) {
+		lines.push(`  ${key}: ${key.endsWith("At") ? new Date(value as number).toISOString() : value}`);
+	}
+	lines.push(`  ${summary.types.length} types:`);
+	summary.types.forEach((type, i) => {
+		const flags = [type.conquerable ? "conquerable" : "", type.navigable ? "navigable" : ""].filter(flag => flag).join(" ");
+		lines.push(`    ${i}\t${type.name}\t${type.colorBase}/${type.colorVariant}\ttime ${type.expansionTime}\tcost ${type.expansionCost}\t${flags}`);
+	});
+	return lines.join("\n");
+}
+
+/**
+ * @param expected decoded map
+ * @param actual map after a round trip
+ * @returns description of the first difference, null if the maps are equal
+ */
+function findMismatch(expected: RawMapData, actual: RawMapData): string | null {
+	if (expected.width !== actual.width || expected.height !== actual.height) {
+		return `size from ${expected.width}x${expected.height} to ${actual.width}x${actual.height}`;
+	}
+	for (let i = 0; i < expected.tiles.length; i++) {
+		if (expected.tiles[i] !== actual.tiles[i]) {
+			return `tile ${i % expected.width},${Math.floor(i / expected.width)} from type ${expected.tiles[i]} to ${actual.tiles[i]}`;
+		}
+	}
+	// typed arrays of tile layers would otherwise be compared as objects keyed by index
+	const serialize = (value: unknown) => JSON.stringify(value, (_, item) => item instanceof Uint16Array ? Array.from(item) : item);
+	for (const key of ["types", "metadata", "spawns", "capitals", "regions", "tileLayers", "extensions"] as const) {
+		if (serialize(expected[key]) !== serialize(actual[key])) {
+			return key;
+		}
+	}
+	return null;
+}
+
+/**
+ * @param inputs files and folders from the command line
+ * @param extension extension of the files to take from folders
+ * @returns files to process, folder contents sorted by name
+ */
+function collectInputs(inputs: string[], extension: string): string[] {
+	const files: string[] = [];
+	for (const input of inputs) {
+		if (existsSync(input) && statSync(input).isDirectory()) {
+			const names = readdirSync(input).filter(name => extname(name).toLowerCase() === extension).sort();
+			files.push(...names.map(name => join(input, name)));
+		} else {
+			files.push(input);
+		}
+	}
+	return files;
+}
+
+/**
+ * @param file input file
+ * @param extension extension of the output file
+ * @param options command line options
+ * @returns output file, its folder is created if necessary
+ */
+function outputPath(file: string, extension: string, options: CliOptions): string {
+	if (options.output) {
+		return options.output;
+	}
+	const folder = options.outDir ?? dirname(file);
+	mkdirSync(folder, {recursive: true});
+	return join(folder, replaceExtension(basename(file), extension));
+}
+
+/**
+ * @param file file name
+ * @param extension new extension including the dot
+ * @returns file name with the extension replaced
+ */
+function replaceExtension(file: string, extension: string): string {
+	return file.slice(0, file.length - extname(file).length) + extension;
+}
+
+/**
+ * @param file map document or palette
+ * @returns parsed document
+ * @throws Error if the file is not valid JSON or not a valid document
+ */
+function readDocument(file: string): MapDocument {
+	try {
+		return mapDocuments.parse(JSON.parse(readFileSync(file, "utf8")));
+	} catch (e) {
+		throw new Error(`${file}: ${errorMessage(e)}`);
+	}
+}
+
+/**
+ * @param e thrown value
+ * @returns message of the error
+ */
+function errorMessage(e: unknown): string {
+	return e instanceof Error ? e.message : String(e);
+}
+
+/**
+ * @param args command line arguments
+ * @returns parsed options
+ * @throws Error if the command line is invalid
+ */
+function parseArguments(args: string[]): CliOptions {
+	const options: CliOptions = {command: "", inputs: [], json: false, help: false, inPlace: false, encode: {}};
+	const value = (i: number) => {
+		if (i >= args.length) throw new Error(`Missing value for ${args[i - 1]}`);
+		return args[i];
+	};
+	const number = (i: number) => {
+		const result = Number(value(i));
+		if (!Number.isInteger(result)) throw new Error(`${args[i - 1]} must be an integer, got ${args[i]}`);
+		return result;
+	};
+	for (let i = 0; i < args.length; i++) {
+		switch (args[i]) {
+			case "-h":
+			case "--help": options.help = true; break;
+			case "--json": options.json = true; break;
+			case "--in-place": options.inPlace = true; break;
+			case "-o":
+			case "--output": options.output = value(++i); break;
+			case "--out-dir": options.outDir = value(++i); break;
+			case "--palette": options.palette = value(++i); break;
+			case "--preset": options.encode.preset = value(++i) as EncodePreset; break;
+			case "--direction": options.encode.direction = value(++i) as EncodeOptions["direction"] & string; break;
+			case "--line-coding": options.encode.lineCoding = value(++i) as EncodeOptions["lineCoding"] & string; break;
+			case "--search-radius": options.encode.searchRadius = number(++i); break;
+			case "--chunk-size": options.encode.chunkSize = number(++i); break;
+			case "--max-line-length": options.encode.maxLineLength = number(++i); break;
+			default:
+				if (args[i].startsWith("-")) throw new Error(`Unknown option ${args[i]}`);
+				if (options.command) options.inputs.push(args[i]);
+				else options.command = args[i];
+		}
+	}
+
+	if (options.help) return options;
+	if (!options.command) throw new Error("Missing command");
+	if (!COMMANDS[options.command]) throw new Error(`Unknown command ${options.command}`);
+	if (options.inputs.length === 0) throw new Error("Missing input files");
+	if (options.output && (options.inputs.length > 1 || statSync(options.inputs[0], {throwIfNoEntry: false})?.isDirectory())) {
+		throw new Error("--output only works with a single input file, use --out-dir");
+	}
+	if (options.command === "convert" && !options.output && !options.outDir && !options.inPlace) {
+		throw new Error("convert needs --output, --out-dir or --in-place");
+	}
+	return options;
+}
+
+type CliOptions = {
+	command: string;
+	inputs: string[];
+	json: boolean;
+	help: boolean;
+	inPlace: boolean;
+	output?: string;
+	outDir?: string;
+	palette?: string;
+	encode: EncodeOptions;
+}
+
+type CommandResult = {
+	file: string;
+	ok: boolean;
+	error?: string;
+	[key: string]: unknown;
+}
+
+type Command = {
+	/** Extension of the files taken from folders */
+	input: string;
+	run: (file: string, options: CliOptions) => CommandResult;
+	describe: (result: CommandResult) => string;
+}
\ No newline at end of file
@@ -0,0 +1,160 @@
+import {LazyWriter} from "./util/LazyWriter";
+import {StreamReader} from "./util/StreamReader";
+import {CodecException} from "./util/CodecException";
+
+export class ExtensionRegistry {
+	private readonly byId: Map<number, ExtensionChunk<unknown>> = new Map();
+	private readonly byName: Map<string, ExtensionChunk<unknown>> = new Map();
+
+	/**
+	 * Registers a chunk codec, making it available to encodeMap and decodeMap
+	 * @param chunk chunk codec to register
+	 * @throws CodecException if the id or name is already taken
+	 */
+	register<T>(chunk: ExtensionChunk<T>): void {
+		if (!Number.isInteger(chunk.id) || chunk.id < 0 || chunk.id > 0xffff) {
+			throw new CodecException(`Invalid extension id: ${chunk.id}`);
+		}
+		if (this.byId.has(chunk.id)) {
+			throw new CodecException(`Extension id ${chunk.id} is already registered`);
+		}
+		if (this.byName.has(chunk.name)) {
+			throw new CodecException(`Extension ${chunk.name} is already registered`);
+		}
+		this.byId.set(chunk.id, chunk as ExtensionChunk<unknown>);
+		this.byName.set(chunk.name, chunk as ExtensionChunk<unknown>);
+	}
+
+	/**
+	 * Removes a chunk codec, maps containing it will still decode but skip the chunk
+	 * @param name name of the chunk
+	 */
+	unregister(name: string): void {
+		const chunk = this.byName.get(name);
+		if (chunk) {
+			this.byName.delete(name);
+			this.byId.delete(chunk.id);
+		}
+	}
+
+	/**
+	 * @param name name of the chunk
+	 * @returns whether a chunk codec with this name is registered
+	 */
+	has(name: string): boolean {
+		return this.byName.has(name);
+	}
+
+	/**
+	 * Writes extension chunks, each prefixed with its id and byte length
+	 * @param writer writer to use
+	 * @param extensions extension data, keyed by chunk name
+	 * @throws CodecException if an extension is not registered
+	 */
+	writeChunks(writer: LazyWriter, extensions: {[name: string]: unknown}): void {
+		const entries = Object.entries(extensions).filter(([, value]) => value !== undefined);
+		writer.writeBits(16, entries.length);
+		for (const [name, value] of entries) {
+			const chunk = this.byName.get(name);
+			if (!chunk) {
+				throw new CodecException(`Unknown extension: ${name}. Register it before encoding`);
+			}
+
+			const payloadWriter = new LazyWriter();
+			chunk.write(payloadWriter, value);
+			const payload = payloadWriter.compress();
+
+			writer.writeBits(16, chunk.id);
+			writer.writeBits(32, payload.length);
+			writer.writeBytes(payload);
+		}
+	}
+
+	/**
+	 * Reads extension chunks, unknown chunks are skipped
+	 * @param reader reader to use
+	 * @returns extension data, keyed by chunk name
+	 */
+	readChunks(reader: StreamReader): {[name: string]: unknown} {
+		const count = reader.readBits(16);
+		const extensions: {[name: string]: unknown} = {};
+		for (let i = 0; i < count; i++) {
+			const id = reader.readBits(16);
+			const payload = reader.readBytes(reader.readBits(32));
+			const chunk = this.byId.get(id);
+			if (chunk) {
+				const payloadReader = new StreamReader(payload);
+				payloadReader.legacyStrings = reader.legacyStrings;
+				extensions[chunk.name] = chunk.read(payloadReader);
+			}
+		}
+		return extensions;
+	}
+
+	/**
+	 * Converts extension data for the JSON format, see {@link ExtensionChunk.toJSON}
+	 * @param extensions extension data, keyed by chunk name
+	 * @returns JSON serializable extension data, unknown extensions are kept as they are
+	 */
+	toJSON(extensions: {[name: string]: unknown}): {[name: string]: unknown} {
+		const result: {[name: string]: unknown} = {};
+		for (const [name, value] of Object.entries(extensions)) {
+			const chunk = this.byName.get(name);
+			result[name] = chunk?.toJSON ? chunk.toJSON(value) : value;
+		}
+		return result;
+	}
+
+	/**
+	 * Restores extension data read from the JSON format, see {@link ExtensionChunk.fromJSON}
+	 * @param extensions parsed extension data, keyed by chunk name
+	 * @returns extension data, unknown extensions are kept as they are
+	 */
+	fromJSON(extensions: {[name: string]: unknown}): {[name: string]: unknown} {
+		const result: {[name: string]: unknown} = {};
+		for (const [name, value] of Object.entries(extensions)) {
+			const chunk = this.byName.get(name);
+			result[name] = chunk?.fromJSON ? chunk.fromJSON(value) : value;
+		}
+		return result;
+	}
+}
+
+/**
+ * Codec for a custom data section
+ *
+ * Each chunk is written to its own buffer, so codecs can't corrupt the surrounding map data.
+ * Decoders that don't know a chunk skip it by its length prefix.
+ */
+export interface ExtensionChunk<T> {
+	/** Unique id stored in the map, 0-65535 */
+	id: number;
+	/** Unique key in RawMapData.extensions */
+	name: string;
+	/**
+	 * Writes the chunk payload
+	 * @param writer writer to use
+	 * @param value value to write
+	 */
+	write(writer: LazyWriter, value: T): void;
+	/**
+	 * Reads the chunk payload
+	 * @param reader reader containing only this chunk
+	 * @returns decoded value
+	 */
+	read(reader: StreamReader): T;
+	/**
+	 * Converts the value for mapToJSON, only needed if the value is not plain JSON data
+	 * @param value value to convert
+	 * @returns JSON serializable value
+	 */
+	toJSON?(value: T): unknown;
+	/**
+	 * Restores a value converted by toJSON
+	 * @param json parsed JSON value
+	 * @returns value
+	 */
+	fromJSON?(json: unknown): T;
+}
+
+export const extensionRegistry = new ExtensionRegistry();
\ No newline at end of file
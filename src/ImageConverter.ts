@@ -0,0 +1,129 @@
+import type {ColorTable, ImageImport, ImagePalette, ImageWarning, RawMapData, RgbaImage, TileType} from "../MapCodec";
+import {CodecException} from "./util/CodecException";
+
+class ImageConverter {
+	/**
+	 * Builds map data from an image, one tile per pixel
+	 *
+	 * Pixels are matched exactly against the color of each type. Other colors fall back to the type
+	 * with the nearest color and are reported once each. Alpha is ignored.
+	 *
+	 * @param image image to convert
+	 * @param palette types of the map and their colors
+	 * @returns map data and warnings for colors missing from the palette
+	 * @throws CodecException if a type has no color or two types share a color
+	 */
+	toMap(image: RgbaImage, palette: ImagePalette): ImageImport {
+		const typeColors = this.getTypeColors(palette.types, palette.colors);
+		const lookup = new Map<number, number>();
+		typeColors.forEach((color, type) => {
+			if (lookup.has(color)) {
+				throw new CodecException(`types[${type}] has the same color as types[${lookup.get(color)}], pixels can't be assigned to either`);
+			}
+			lookup.set(color, type);
+		});
+
+		const tiles = new Uint16Array(image.width * image.height);
+		const missing = new Map<number, {type: number, pixelCount: number, first: number}>();
+		for (let i = 0; i < tiles.length; i++) {
+			const color = image.pixels[i * 4] << 16 | image.pixels[i * 4 + 1] << 8 | image.pixels[i * 4 + 2];
+			let type = lookup.get(color);
+			if (type === undefined) {
+				type = this.findNearest(color, typeColors);
+				lookup.set(color, type);
+				missing.set(color, {type, pixelCount: 0, first: i});
+			}
+			const fallback = missing.get(color);
+			if (fallback) fallback.pixelCount++;
+			tiles[i] = type;
+		}
+
+		const warnings: ImageWarning[] = [];
+		for (const [color, fallback] of missing) {
+			const x = fallback.first % image.width;
+			const y = Math.floor(fallback.first / image.width);
+			warnings.push({
+				color: this.formatColor(color),
+				type: fallback.type,
+				pixelCount: fallback.pixelCount,
+				x,
+				y,
+				message: `Color ${this.formatColor(color)} is not in the palette, ${fallback.pixelCount} pixels starting at ${x},${y} use the nearest type ${palette.types[fallback.type].name}`
+			});
+		}
+		return {data: {width: image.width, height: image.height, tiles, types: palette.types}, warnings};
+	}
+
+	/**
+	 * Renders the tiles of a map, one pixel per tile
+	 * @param data map data to render
+	 * @param colors colors of the types
+	 * @returns opaque RGBA image
+	 * @throws CodecException if a type has no color
+	 */
+	render(data: RawMapData, colors: ColorTable): RgbaImage {
+		const typeColors = this.getTypeColors(data.types, colors);
+		const pixels = new Uint8Array(data.tiles.length * 4);
+		for (let i = 0; i < data.tiles.length; i++) {
+			const color = typeColors[data.tiles[i]];
+			pixels[i * 4] = color >>> 16;
+			pixels[i * 4 + 1] = color >>> 8 & 0xff;
+			pixels[i * 4 + 2] = color & 0xff;
+			pixels[i * 4 + 3] = 255;
+		}
+		return {width: data.width, height: data.height, pixels};
+	}
+
+	/**
+	 * @param types tile types
+	 * @param colors colors by base color and variant
+	 * @returns color of each type as 0xrrggbb
+	 * @throws CodecException if a type has no valid color
+	 * @private
+	 */
+	private getTypeColors(types: TileType[], colors: ColorTable): number[] {
+		return types.map((type, i) => {
+			const color = Object.prototype.hasOwnProperty.call(colors, type.colorBase) ? colors[type.colorBase][type.colorVariant] : undefined;
+			if (!color) {
+				throw new CodecException(`No color for colorBase ${type.colorBase} variant ${type.colorVariant}, used by types[${i}]`);
+			}
+			if (!/^#[0-9a-f]{6}$/i.test(color)) {
+				throw new CodecException(`Color ${color} of colorBase ${type.colorBase} variant ${type.colorVariant} must be in the format #rrggbb`);
+			}
+			return parseInt(color.slice(1), 16);
+		});
+	}
+
+	/**
+	 * @param color color as 0xrrggbb
+	 * @param typeColors color of each type
+	 * @returns type with the smallest euclidean distance in RGB space
+	 * @private
+	 */
+	private findNearest(color: number, typeColors: number[]): number {
+		let nearest = 0;
+		let nearestDistance = Infinity;
+		for (let type = 0; type < typeColors.length; type++) {
+			const red = (color >>> 16) - (typeColors[type] >>> 16);
+			const green = (color >>> 8 & 0xff) - (typeColors[type] >>> 8 & 0xff);
+			const blue = (color & 0xff) - (typeColors[type] & 0xff);
+			const distance = red * red + green * green + blue * blue;
+			if (distance < nearestDistance) {
+				nearest = type;
+				nearestDistance = distance;
+			}
+		}
+		return nearest;
+	}
+
+	/**
+	 * @param color color as 0xrrggbb
+	 * @returns color in the format #rrggbb
+	 * @private
+	 */
+	private formatColor(color: number): string {
+		return `#${color.toString(16).padStart(6, "0")}`;
+	}
+}
+
+export const imageConverter = new ImageConverter();
\ No newline at end of file
@@ -0,0 +1,309 @@
+import type {MapMetadata, MapPoint, MapRegion, RawMapData, TileLayer, TileType} from "../MapCodec";
+import {extensionRegistry} from "./ExtensionRegistry";
+import {CodecException, TypeIndexException, UnsupportedVersionException} from "./util/CodecException";
+
+// Bump this for breaking changes of the JSON layout, see schema/map.schema.json
+const JSON_VERSION = 1;
+
+const TYPE_KEYS: (keyof TileType)[] = ["name", "colorBase", "colorVariant", "conquerable", "navigable", "expansionTime", "expansionCost", "attributes"];
+const METADATA_KEYS: (keyof MapMetadata)[] = ["name", "author", "description", "createdAt", "modifiedAt", "editorVersion"];
+
+class JsonCodec {
+	/**
+	 * Converts map data to JSON
+	 *
+	 * Keys are written in a fixed order and each row is a single line, so equal maps produce equal text
+	 * and changes show up as small diffs.
+	 *
+	 * @param data map data to convert
+	 * @returns formatted JSON text
+	 */
+	write(data: RawMapData): string {
+		const document: {[key: string]: unknown} = {
+			formatVersion: JSON_VERSION,
+			width: data.width,
+			height: data.height,
+			metadata: this.pick(data.metadata ?? {}, METADATA_KEYS),
+			types: data.types.map(type => this.pick(type.attributes ? {...type, attributes: this.pick(type.attributes, Object.keys(type.attributes).sort())} : type, TYPE_KEYS)),
+			rows: this.writeRows(data.tiles, data.width, data.height)
+		};
+		for (const key of ["spawns", "capitals"] as const) {
+			const points = data[key];
+			if (points?.length) {
+				document[key] = points.map(point => ({x: point.x, y: point.y}));
+			}
+		}
+		if (data.regions?.length) {
+			document["regions"] = data.regions.map(region => ({name: region.name, tiles: this.writeRanges(region.tiles)}));
+		}
+		if (data.tileLayers && Object.keys(data.tileLayers).length > 0) {
+			const tileLayers: {[name: string]: unknown} = {};
+			for (const [name, layer] of Object.entries(data.tileLayers)) {
+				tileLayers[name] = {bits: layer.bits, encoding: layer.encoding, rows: this.writeRows(layer.values, data.width, data.height)};
+			}
+			document["tileLayers"] = tileLayers;
+		}
+		if (data.extensions && Object.keys(data.extensions).length > 0) {
+			document["extensions"] = extensionRegistry.toJSON(data.extensions);
+		}
+		return this.format(document, "");
+	}
+
+	/**
+	 * Reads map data from JSON written by {@link write}
+	 * @param json JSON text
+	 * @returns map data, not yet validated
+	 * @throws UnsupportedVersionException if the JSON layout version is not supported
+	 * @throws TypeIndexException if a row references an unknown type
+	 * @throws CodecException if the JSON is malformed
+	 */
+	read(json: string): RawMapData {
+		let document: {[key: string]: unknown};
+		try {
+			document = JSON.parse(json);
+		} catch (e) {
+			throw new CodecException(`Invalid JSON: ${(e as Error).message}`);
+		}
+		if (typeof document !== "object" || document === null || Array.isArray(document)) {
+			throw new CodecException("Map JSON must be an object");
+		}
+		if (document["formatVersion"] !== JSON_VERSION) {
+			throw new UnsupportedVersionException(`Unsupported map JSON version: ${document["formatVersion"]}`);
+		}
+
+		const width = document["width"];
+		const height = document["height"];
+		if (!Number.isInteger(width) || !Number.isInteger(height) || (width as number) < 1 || (height as number) < 1) {
+			throw new CodecException("width and height must be positive integers");
+		}
+		const types = this.expectArray(document["types"], "types") as TileType[];
+		const tiles = this.readRows(this.expectArray(document["rows"], "rows"), width as number, height as number, "rows");
+		const unknown = tiles.findIndex(type => type >= types.length);
+		if (unknown !== -1) {
+			throw new TypeIndexException(`rows[${Math.floor(unknown / (width as number))}]: type ${tiles[unknown]} does not exist, the map has ${types.length} types`);
+		}
+		const data: RawMapData = {
+			width: width as number,
+			height: height as number,
+			tiles,
+			types,
+			metadata: (document["metadata"] ?? {}) as MapMetadata
+		};
+		for (const key of ["spawns", "capitals"] as const) {
+			if (document[key] !== undefined) {
+				data[key] = this.expectArray(document[key], key) as MapPoint[];
+			}
+		}
+		if (document["regions"] !== undefined) {
+			data.regions = this.expectArray(document["regions"], "regions").map((region, i) => {
+				const {name, tiles} = region as {name: string, tiles: unknown};
+				if (typeof tiles !== "string") {
+					throw new CodecException(`regions[${i}].tiles must be a string of tile ranges`);
+				}
+				return {name, tiles: this.readRanges(tiles, data.tiles.length, `regions[${i}].tiles`)} as MapRegion;
+			});
+		}
+		if (document["tileLayers"] !== undefined) {
+			data.tileLayers = this.readTileLayers(document["tileLayers"], data.width, data.height);
+		}
+		if (document["extensions"] !== undefined) {
+			data.extensions = extensionRegistry.fromJSON(document["extensions"] as {[name: string]: unknown});
+		}
+		return data;
+	}
+
+	/**
+	 * Run-length encodes each row, e.g. "0*12 3 0*20" is 12 tiles of type 0, one of type 3 and 20 of type 0
+	 * @param values tiles or values of a tile layer
+	 * @param width width of the map
+	 * @param height height of the map
+	 * @returns one string per row
+	 * @private
+	 */
+	private writeRows(values: Uint16Array, width: number, height: number): string[] {
+		const rows: string[] = [];
+		for (let y = 0; y < height; y++) {
+			const runs: string[] = [];
+			for (let x = 0; x < width;) {
+				const value = values[y * width + x];
+				let length = 1;
+				while (x + length < width && values[y * width + x + length] === value) length++;
+				runs.push(length === 1 ? `${value}` : `${value}*${length}`);
+				x += length;
+			}
+			rows.push(runs.join(" "));
+		}
+		return rows;
+	}
+
+	/**
+	 * @param rows run-length encoded rows
+	 * @param width width of the map
+	 * @param height height of the map
+	 * @param path path of the rows for error messages
+	 * @returns one value per tile
+	 * @throws CodecException if a row is malformed, doesn't match the width or a value exceeds 16 bits
+	 * @private
+	 */
+	private readRows(rows: unknown[], width: number, height: number, path: string): Uint16Array {
+		if (rows.length !== height) {
+			throw new CodecException(`${path}: expected ${height} rows, got ${rows.length}`);
+		}
+		const values = new Uint16Array(width * height);
+		rows.forEach((row, y) => {
+			if (typeof row !== "string") {
+				throw new CodecException(`${path}[${y}] must be a string`);
+			}
+			let x = 0;
+			for (const run of row.split(" ")) {
+				const match = /^(\d+)(?:\*(\d+))?$/.exec(run);
+				if (!match || match[2] === "0") {
+					throw new CodecException(`${path}[${y}]: invalid run "${run}", expected value or value*count`);
+				}
+				const value = Number(match[1]);
+				const length = match[2] ? Number(match[2]) : 1;
+				if (value > 65535) {
+					throw new CodecException(`${path}[${y}]: value ${value} exceeds 16 bits`);
+				}
+				if (x + length > width) {
+					throw new CodecException(`${path}[${y}] is longer than the map width of ${width}`);
+				}
+				values.fill(value, y * width + x, y * width + x + length);
+				x += length;
+			}
+			if (x !== width) {
+				throw new CodecException(`${path}[${y}] has ${x} tiles, expected ${width}`);
+			}
+		});
+		return values;
+	}
+
+	/**
+	 * @param value parsed tileLayers object
+	 * @param width width of the map
+	 * @param height height of the map
+	 * @returns tile layers, not yet validated
+	 * @throws CodecException if a layer is malformed
+	 * @private
+	 */
+	private readTileLayers(value: unknown, width: number, height: number): {[name: string]: TileLayer} {
+		if (typeof value !== "object" || value === null || Array.isArray(value)) {
+			throw new CodecException("tileLayers must be an object");
+		}
+		const tileLayers: {[name: string]: TileLayer} = {};
+		for (const [name, layer] of Object.entries(value)) {
+			const {bits, encoding, rows} = (layer ?? {}) as {bits: number, encoding?: TileLayer["encoding"], rows: unknown};
+			tileLayers[name] = {bits, values: this.readRows(this.expectArray(rows, `tileLayers.${name}.rows`), width, height, `tileLayers.${name}.rows`)};
+			if (encoding !== undefined) tileLayers[name].encoding = encoding;
+		}
+		return tileLayers;
+	}
+
+	/**
+	 * @param tiles tile indices
+	 * @returns sorted ranges without duplicates like in the binary format, e.g. "4-9 12 20-21"
+	 * @private
+	 */
+	private writeRanges(tiles: number[]): string {
+		const sorted = [...new Set(tiles)].sort((a, b) => a - b);
+		const ranges: string[] = [];
+		for (let i = 0; i < sorted.length;) {
+			let end = i;
+			while (end + 1 < sorted.length && sorted[end + 1] === sorted[end] + 1) end++;
+			ranges.push(end === i ? `${sorted[i]}` : `${sorted[i]}-${sorted[end]}`);
+			i = end + 1;
+		}
+		return ranges.join(" ");
+	}
+
+	/**
+	 * @param ranges ranges written by {@link writeRanges}
+	 * @param tileCount number of tiles in the map
+	 * @param path path of the value for error messages
+	 * @returns tile indices
+	 * @throws CodecException if a range is malformed or outside the map
+	 * @private
+	 */
+	private readRanges(ranges: string, tileCount: number, path: string): number[] {
+		const tiles: number[] = [];
+		for (const range of ranges.split(" ").filter(range => range)) {
+			const match = /^(\d+)(?:-(\d+))?$/.exec(range);
+			const start = match ? Number(match[1]) : NaN;
+			const end = match?.[2] ? Number(match[2]) : start;
+			if (!match || end < start) {
+				throw new CodecException(`${path}: invalid range "${range}", expected tile or first-last`);
+			}
+			if (end >= tileCount) {
+				throw new CodecException(`${path}: range "${range}" is outside the map`);
+			}
+			for (let tile = start; tile <= end; tile++) tiles.push(tile);
+		}
+		return tiles;
+	}
+
+	/**
+	 * @param value value to check
+	 * @param path path of the value for error messages
+	 * @returns value as array
+	 * @throws CodecException if the value is not an array
+	 * @private
+	 */
+	private expectArray(value: unknown, path: string): unknown[] {
+		if (!Array.isArray(value)) {
+			throw new CodecException(`${path} must be an array`);
+		}
+		return value;
+	}
+
+	/**
+	 * Copies an object with known keys first, in a fixed order
+	 * @param value object to copy
+	 * @param keys known keys in order
+	 * @returns copy with undefined values left out
+	 * @private
+	 */
+	private pick<T extends object>(value: T, keys: (keyof T)[]): {[key: string]: unknown} {
+		const result: {[key: string]: unknown} = {};
+		for (const key of [...keys, ...Object.keys(value) as (keyof T)[]]) {
+			if (value[key] !== undefined && !(key in result)) {
+				result[key as string] = value[key];
+			}
+		}
+		return result;
+	}
+
+	/**
+	 * Formats a JSON value with tabs, number arrays and objects without nested arrays stay on one line
+	 * @param value JSON serializable value
+	 * @param indent indentation of the value
+	 * @returns formatted JSON text
+	 * @private
+	 */
+	private format(value: unknown, indent: string): string {
+		if (typeof value !== "object" || value === null) {
+			return JSON.stringify(value);
+		}
+		const inner = indent + "\t";
+		if (Array.isArray(value)) {
+			if (value.every(item => typeof item === "number")) return JSON.stringify(value);
+			return `[\n${value.map(item => inner + this.format(item, inner)).join(",\n")}\n${indent}]`;
+		}
+		const entries = Object.entries(value).filter(([, item]) => item !== undefined);
+		if (!this.containsArray(value)) {
+			return `{${entries.map(([key, item]) => `${JSON.stringify(key)}: ${this.format(item, inner)}`).join(", ")}}`;
+		}
+		return `{\n${entries.map(([key, item]) => `${inner}${JSON.stringify(key)}: ${this.format(item, inner)}`).join(",\n")}\n${indent}}`;
+	}
+
+	/**
+	 * @param value JSON serializable value
+	 * @returns whether the value is or contains an array
+	 * @private
+	 */
+	private containsArray(value: unknown): boolean {
+		if (typeof value !== "object" || value === null) return false;
+		return Array.isArray(value) || Object.values(value).some(item => this.containsArray(item));
+	}
+}
+
+export const jsonCodec = new JsonCodec();
\ No newline at end of file
@@ -0,0 +1,137 @@
+import type {MapPoint, MapRegion, RawMapData} from "../MapCodec";
+import type {LazyWriter} from "./util/LazyWriter";
+import type {StreamReader} from "./util/StreamReader";
+
+class LayerCodec {
+	/**
+	 * @param data map data to check
+	 * @returns whether the map contains any point or region layers
+	 */
+	hasLayers(data: RawMapData): boolean {
+		return !!(data.spawns?.length || data.capitals?.length || data.regions?.length);
+	}
+
+	/**
+	 * Writes point and region layers, the layers must have passed validation
+	 * @param writer writer to use
+	 * @param data map data containing the layers
+	 */
+	write(writer: LazyWriter, data: RawMapData): void {
+		const spawns = data.spawns ?? [];
+		const capitals = data.capitals ?? [];
+		const regions = data.regions ?? [];
+
+		this.writePoints(writer, spawns, data.width, data.height);
+		this.writePoints(writer, capitals, data.width, data.height);
+		writer.writeBits(16, regions.length);
+		for (const region of regions) {
+			this.writeRegion(writer, region, data.width * data.height);
+		}
+	}
+
+	/**
+	 * Reads point and region layers
+	 * @param reader reader to use
+	 * @param width map width
+	 * @param height map height
+	 * @returns decoded layers
+	 */
+	read(reader: StreamReader, width: number, height: number): Pick<RawMapData, "spawns" | "capitals" | "regions"> {
+		const spawns = this.readPoints(reader, width, height);
+		const capitals = this.readPoints(reader, width, height);
+		const regionCount = reader.readBits(16);
+		const regions = [];
+		for (let i = 0; i < regionCount; i++) {
+			regions.push(this.readRegion(reader, width * height));
+		}
+		return {spawns, capitals, regions};
+	}
+
+	/**
+	 * Writes a list of points, coordinates only use as many bits as the map dimensions require
+	 * @param writer writer to use
+	 * @param points points to write
+	 * @param width map width
+	 * @param height map height
+	 * @private
+	 */
+	private writePoints(writer: LazyWriter, points: MapPoint[], width: number, height: number) {
+		writer.writeBits(16, points.length);
+		for (const point of points) {
+			writer.writeBits(Math.ceil(Math.log2(width)), point.x);
+			writer.writeBits(Math.ceil(Math.log2(height)), point.y);
+		}
+	}
+
+	/**
+	 * Writes a region as runs of consecutive tiles
+	 * @param writer writer to use
+	 * @param region region to write
+	 * @param size number of tiles in the map
+	 * @private
+	 */
+	private writeRegion(writer: LazyWriter, region: MapRegion, size: number) {
+		const tiles = [...new Set(region.tiles)].sort((a, b) => a - b);
+
+		const runs: [number, number][] = [];
+		for (const tile of tiles) {
+			const last = runs[runs.length - 1];
+			if (last && last[0] + last[1] === tile) {
+				last[1]++;
+			} else {
+				runs.push([tile, 1]);
+			}
+		}
+
+		const positionLength = Math.ceil(Math.log2(size));
+		writer.writeString(32, region.name);
+		writer.writeBits(32, runs.length);
+		let position = 0;
+		for (const [start, length] of runs) {
+			writer.writeBits(positionLength, start - position);
+			writer.writeBits(positionLength, length - 1);
+			position = start + length;
+		}
+	}
+
+	/**
+	 * @param reader reader to use
+	 * @param width map width
+	 * @param height map height
+	 * @returns list of points
+	 * @private
+	 */
+	private readPoints(reader: StreamReader, width: number, height: number): MapPoint[] {
+		const count = reader.readBits(16);
+		const points = [];
+		for (let i = 0; i < count; i++) {
+			points.push({x: reader.readBits(Math.ceil(Math.log2(width))), y: reader.readBits(Math.ceil(Math.log2(height)))});
+		}
+		return points;
+	}
+
+	/**
+	 * @param reader reader to use
+	 * @param size number of tiles in the map
+	 * @returns region with sorted tile indices
+	 * @private
+	 */
+	private readRegion(reader: StreamReader, size: number): MapRegion {
+		const positionLength = Math.ceil(Math.log2(size));
+		const name = reader.readString(32);
+		const runCount = reader.readBits(32);
+		const tiles = [];
+		let position = 0;
+		for (let i = 0; i < runCount; i++) {
+			const start = position + reader.readBits(positionLength);
+			const length = reader.readBits(positionLength) + 1;
+			for (let j = 0; j < length; j++) {
+				tiles.push(start + j);
+			}
+			position = start + length;
+		}
+		return {name, tiles};
+	}
+}
+
+export const layerCodec = new LayerCodec();
\ No newline at end of file
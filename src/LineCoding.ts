@@ -0,0 +1,317 @@
+import type {MapSummary} from "../MapCodec";
+import type {LazyWriter} from "./util/LazyWriter";
+import type {StreamReader} from "./util/StreamReader";
+import {createProbabilities, RangeDecoder, RangeEncoder} from "./util/RangeCoder";
+
+/**
+ * Parameters of the line encoding stored in the compression header
+ */
+export type LineFormat = {
+	/** log2 of the chunk size, lines are sorted into square chunks */
+	chunkBits: number;
+	/** Number of bits storing the line length, lines have at most 2^lengthBits tiles */
+	lengthBits: number;
+}
+
+/** Format used by maps that don't store their line format */
+export const DEFAULT_LINE_FORMAT: LineFormat = {chunkBits: 5, lengthBits: 8};
+
+/**
+ * Destination for the symbols that make up the compressed lines
+ *
+ * Directions are 0 = right, 1 = left, 2 = down, 3 = up
+ */
+export interface LineSink {
+	/**
+	 * @param skip true to advance to the next chunk, false once the line's chunk is reached
+	 */
+	writeChunkSkip(skip: boolean): void;
+
+	/**
+	 * Writes the line header
+	 * @param length number of tiles in the line, at most 2^lengthBits
+	 * @param type tile type of the line
+	 * @param offset starting position inside the chunk, x + y * chunk size
+	 */
+	writeHeader(length: number, type: number, offset: number): void;
+
+	/**
+	 * @param direction step direction
+	 */
+	writeDirection(direction: number): void;
+}
+
+/**
+ * Source of the symbols that make up the compressed lines, see {@link LineSink}
+ */
+export interface LineSource {
+	/**
+	 * @returns true to advance to the next chunk, false once the line's chunk is reached
+	 */
+	readChunkSkip(): boolean;
+
+	/**
+	 * @returns number of tiles in the line, tile type and starting position inside the chunk
+	 */
+	readHeader(): {length: number, type: number, offset: number};
+
+	/**
+	 * @returns step direction
+	 */
+	readDirection(): number;
+
+	/**
+	 * Skips the directions of the current line
+	 * @param count number of directions to skip
+	 */
+	skipDirections(count: number): void;
+}
+
+/**
+ * Fixed-size symbols: unary chunk skips, 1 reserved bit, length, type id, offset and 2-bit directions
+ */
+export class RawLineSink implements LineSink {
+	private readonly writer: LazyWriter;
+	private readonly typeLength: number;
+	private readonly format: LineFormat;
+
+	/**
+	 * @param writer writer to use
+	 * @param typeLength length of type ids
+	 * @param format line format to use
+	 */
+	constructor(writer: LazyWriter, typeLength: number, format: LineFormat) {
+		this.writer = writer;
+		this.typeLength = typeLength;
+		this.format = format;
+	}
+
+	writeChunkSkip(skip: boolean): void {
+		this.writer.writeBoolean(skip);
+	}
+
+	writeHeader(length: number, type: number, offset: number): void {
+		this.writer.writeBits(1, 0); //reserved for future use
+		this.writer.writeBits(this.format.lengthBits, length - 1);
+		this.writer.writeBits(this.typeLength, type);
+		this.writer.writeBits(2 * this.format.chunkBits, offset);
+	}
+
+	writeDirection(direction: number): void {
+		this.writer.writeBits(2, direction);
+	}
+}
+
+/**
+ * Reads symbols written by {@link RawLineSink}, the source keeps no state besides the reader position
+ */
+export class RawLineSource implements LineSource {
+	private readonly reader: StreamReader;
+	private readonly typeLength: number;
+	private readonly format: LineFormat;
+
+	/**
+	 * @param reader reader to use
+	 * @param typeLength length of type ids
+	 * @param format line format to use
+	 */
+	constructor(reader: StreamReader, typeLength: number, format: LineFormat) {
+		this.reader = reader;
+		this.typeLength = typeLength;
+		this.format = format;
+	}
+
+	readChunkSkip(): boolean {
+		return this.reader.readBoolean();
+	}
+
+	readHeader(): {length: number, type: number, offset: number} {
+		this.reader.readBits(1); //reserved for future use
+		const length = this.reader.readBits(this.format.lengthBits) + 1;
+		const type = this.reader.readBits(this.typeLength);
+		return {length, type, offset: this.reader.readBits(2 * this.format.chunkBits)};
+	}
+
+	readDirection(): number {
+		return this.reader.readBits(2);
+	}
+
+	skipDirections(count: number): void {
+		this.reader.skipBits(2 * count);
+	}
+}
+
+/**
+ * Adaptive models shared by the entropy coded sink and source
+ *
+ * Directions are predicted from the two previous directions of the line and the tile type,
+ * since coastlines tend to repeat the same turns. Lengths, types and offsets use bit trees,
+ * so frequent values become cheap.
+ */
+class EntropyModel {
+	readonly chunkSkip: Uint16Array = createProbabilities(2);
+	readonly length: Uint16Array;
+	readonly offsetX: Uint16Array;
+	readonly offsetY: Uint16Array;
+	readonly type: Uint16Array;
+	readonly typeLength: number;
+	readonly format: LineFormat;
+	/** 8 type buckets * 5 * 5 previous directions (4 = none) * 4 tree nodes */
+	readonly direction: Uint16Array = createProbabilities(8 * 25 * 4);
+	lastSkip: number = 0;
+	lineType: number = 0;
+	previous: number = 4;
+	beforePrevious: number = 4;
+
+	/**
+	 * @param typeLength length of type ids
+	 * @param format line format to use
+	 */
+	constructor(typeLength: number, format: LineFormat) {
+		this.typeLength = typeLength;
+		this.format = format;
+		this.type = createProbabilities(1 << typeLength);
+		this.length = createProbabilities(1 << format.lengthBits);
+		this.offsetX = createProbabilities(1 << format.chunkBits);
+		this.offsetY = createProbabilities(1 << format.chunkBits);
+	}
+
+	/**
+	 * Resets the direction context at the start of a line
+	 * @param type tile type of the line
+	 */
+	startLine(type: number) {
+		this.lineType = Math.min(type, 7);
+		this.previous = 4;
+		this.beforePrevious = 4;
+	}
+
+	/**
+	 * @returns offset of the direction tree for the current context
+	 */
+	directionContext(): number {
+		return ((this.lineType * 5 + this.beforePrevious) * 5 + this.previous) * 4;
+	}
+
+	/**
+	 * Advances the direction context
+	 * @param direction direction that was just coded
+	 */
+	pushDirection(direction: number) {
+		this.beforePrevious = this.previous;
+		this.previous = direction;
+	}
+}
+
+/**
+ * Entropy codes line symbols with an adaptive range coder
+ */
+export class EntropyLineSink implements LineSink {
+	private readonly encoder: RangeEncoder = new RangeEncoder();
+	private readonly model: EntropyModel;
+
+	/**
+	 * @param typeLength length of type ids
+	 * @param format line format to use
+	 */
+	constructor(typeLength: number, format: LineFormat) {
+		this.model = new EntropyModel(typeLength, format);
+	}
+
+	writeChunkSkip(skip: boolean): void {
+		this.encoder.encodeBit(this.model.chunkSkip, this.model.lastSkip, skip ? 1 : 0);
+		this.model.lastSkip = skip ? 1 : 0;
+	}
+
+	writeHeader(length: number, type: number, offset: number): void {
+		const {chunkBits, lengthBits} = this.model.format;
+		this.encoder.encodeTree(this.model.length, lengthBits, length - 1);
+		this.encoder.encodeTree(this.model.type, this.model.typeLength, type);
+		this.encoder.encodeTree(this.model.offsetX, chunkBits, offset % (1 << chunkBits));
+		this.encoder.encodeTree(this.model.offsetY, chunkBits, offset >>> chunkBits);
+		this.model.startLine(type);
+	}
+
+	writeDirection(direction: number): void {
+		const context = this.model.direction.subarray(this.model.directionContext());
+		this.encoder.encodeTree(context, 2, direction);
+		this.model.pushDirection(direction);
+	}
+
+	/**
+	 * @returns encoded bytes
+	 */
+	finish(): Uint8Array {
+		return this.encoder.finish();
+	}
+}
+
+/**
+ * Reads symbols written by {@link EntropyLineSink}
+ */
+export class EntropyLineSource implements LineSource {
+	private readonly decoder: RangeDecoder;
+	private readonly model: EntropyModel;
+
+	/**
+	 * @param data encoded bytes
+	 * @param typeLength length of type ids
+	 * @param format line format to use
+	 */
+	constructor(data: Uint8Array, typeLength: number, format: LineFormat) {
+		this.decoder = new RangeDecoder(data);
+		this.model = new EntropyModel(typeLength, format);
+	}
+
+	readChunkSkip(): boolean {
+		const skip = this.decoder.decodeBit(this.model.chunkSkip, this.model.lastSkip);
+		this.model.lastSkip = skip;
+		return skip === 1;
+	}
+
+	readHeader(): {length: number, type: number, offset: number} {
+		const {chunkBits, lengthBits} = this.model.format;
+		const length = this.decoder.decodeTree(this.model.length, lengthBits) + 1;
+		const type = this.decoder.decodeTree(this.model.type, this.model.typeLength);
+		const offset = this.decoder.decodeTree(this.model.offsetX, chunkBits) + (this.decoder.decodeTree(this.model.offsetY, chunkBits) << chunkBits);
+		this.model.startLine(type);
+		return {length, type, offset};
+	}
+
+	readDirection(): number {
+		const context = this.model.direction.subarray(this.model.directionContext());
+		const direction = this.decoder.decodeTree(context, 2);
+		this.model.pushDirection(direction);
+		return direction;
+	}
+
+	skipDirections(count: number): void {
+		for (let i = 0; i < count; i++) {
+			this.readDirection();
+		}
+	}
+}
+
+/**
+ * Creates the source for the lines following the line count
+ * @param reader reader positioned right after the line count
+ * @param entropyCoded whether the lines are entropy coded
+ * @param typeCount number of known tile types
+ * @param format line format of the map
+ * @returns line source, entropy coded lines are read into memory completely
+ */
+export function openLineSource(reader: StreamReader, entropyCoded: boolean, typeCount: number, format: LineFormat): LineSource {
+	const typeLength = Math.ceil(Math.log2(typeCount));
+	if (entropyCoded) {
+		return new EntropyLineSource(reader.readBytes(reader.readBits(32)), typeLength, format);
+	}
+	return new RawLineSource(reader, typeLength, format);
+}
+
+/**
+ * @param summary summary of the map
+ * @returns line format the map was encoded with
+ */
+export function getLineFormat(summary: MapSummary): LineFormat {
+	return {chunkBits: Math.log2(summary.chunkSize), lengthBits: Math.log2(summary.maxLineLength)};
+}
\ No newline at end of file
@@ -0,0 +1,90 @@
+import type {LineFormat, LineSource} from "./LineCoding";
+import {CodecException, TypeIndexException} from "./util/CodecException";
+
+/**
+ * Reads compressed lines one at a time
+ *
+ * A line is only committed once it has been read completely, so a read that fails because
+ * the data ended early can be retried once more data is available.
+ */
+export class LineReader {
+	/** Chunk of the last line, lines are sorted by chunk */
+	chunk: number = 0;
+	/** Tile type of the last line */
+	type: number = 0;
+	/** Number of tiles in the last line, 0 if the line was skipped */
+	length: number = 0;
+	/** Tile indices of the last line, only the first length entries are valid */
+	readonly positions: Int32Array;
+	/** Lines never reach further than this many tiles from their starting point */
+	readonly reach: number;
+	private readonly width: number;
+	private readonly size: number;
+	private readonly chunkSize: number;
+	private readonly chunksPerRow: number;
+	private readonly typeCount: number;
+
+	/**
+	 * @param width map width
+	 * @param height map height
+	 * @param typeCount number of known tile types
+	 * @param format line format of the map
+	 */
+	constructor(width: number, height: number, typeCount: number, format: LineFormat) {
+		this.width = width;
+		this.size = width * height;
+		this.chunkSize = 1 << format.chunkBits;
+		this.chunksPerRow = Math.ceil(width / this.chunkSize);
+		this.typeCount = typeCount;
+		this.positions = new Int32Array(1 << format.lengthBits);
+		this.reach = this.positions.length - 1;
+	}
+
+	/**
+	 * @returns first row of the chunk band the last line starts in
+	 */
+	get bandRow(): number {
+		return Math.floor(this.chunk / this.chunksPerRow) * this.chunkSize;
+	}
+
+	/**
+	 * Reads the next line
+	 * @param source source to read from
+	 * @param skip optional filter receiving the starting tile, if it returns true the line's tiles are not decoded
+	 * @throws TypeIndexException if the line references an unknown tile type
+	 * @throws CodecException if the line leaves the map
+	 */
+	read(source: LineSource, skip?: (start: number) => boolean): void {
+		let chunk = this.chunk;
+		while (source.readChunkSkip()) {
+			chunk++;
+		}
+		const {length, type, offset} = source.readHeader();
+		if (type >= this.typeCount) {
+			throw new TypeIndexException(`Tile type ${type} is out of range, only ${this.typeCount} types are defined`);
+		}
+		const size = this.chunkSize;
+		let position = (offset % size) + (chunk % this.chunksPerRow) * size + Math.floor(offset / size) * this.width + Math.floor(chunk / this.chunksPerRow) * size * this.width;
+		if (skip && skip(position)) {
+			source.skipDirections(length - 1);
+			this.chunk = chunk;
+			this.type = type;
+			this.length = 0;
+			return;
+		}
+		for (let i = 0; i < length; i++) {
+			if (i > 0) {
+				const diff = source.readDirection();
+				position += diff === 0 ? 1 : diff === 1 ? -1 : diff === 2 ? this.width : -this.width;
+			}
+			if (position < 0 || position >= this.size) {
+				throw new CodecException("Line leaves the map, the map data is corrupted");
+			}
+			this.positions[i] = position;
+		}
+
+		this.chunk = chunk;
+		this.type = type;
+		this.length = length;
+	}
+}
\ No newline at end of file
@@ -0,0 +1,357 @@
+import type {AnalysisOptions, Chokepoint, MapAnalysis, MapArea, MapAreaKind, MapPoint, RawMapData, SpawnFairness} from "../MapCodec";
+import {ZoneCalculator} from "./util/ZoneCalculator";
+import {CodecException} from "./util/CodecException";
+
+/** Area kind of each class value of the class grid */
+const KINDS: MapAreaKind[] = ["impassable", "land", "water"];
+
+class MapAnalyzer {
+	/**
+	 * Groups tiles into landmasses and water bodies and finds narrow passages between their parts
+	 * @param data map to analyze
+	 * @param options chokepoint detection settings
+	 * @returns areas, the area of each tile and chokepoints
+	 * @throws CodecException if an option is invalid
+	 */
+	analyze(data: RawMapData, options: AnalysisOptions): MapAnalysis {
+		const maxWidth = options.maxChokepointWidth ?? 3;
+		const minSide = options.minChokepointSide ?? 100;
+		if (!Number.isInteger(maxWidth) || maxWidth < 1) {
+			throw new CodecException(`Maximum chokepoint width must be a positive integer, got ${maxWidth}`);
+		}
+		if (!Number.isInteger(minSide) || minSide < 1) {
+			throw new CodecException(`Minimum chokepoint side must be a positive integer, got ${minSide}`);
+		}
+
+		const classes = new Uint16Array(data.tiles.length);
+		for (let i = 0; i < data.tiles.length; i++) {
+			const type = data.types[data.tiles[i]];
+			classes[i] = type.conquerable ? 1 : type.navigable ? 2 : 0;
+		}
+		const {zones, zoneMap: areaMap} = ZoneCalculator.buildZones({width: data.width, height: data.height, tiles: classes});
+		for (let i = 0; i < areaMap.length; i++) {
+			areaMap[i]--;
+		}
+
+		const areas: MapArea[] = zones.map((zone, id) => ({id, kind: KINDS[zone.id], area: 0, perimeter: 0, neighbours: []}));
+		this.measureAreas(areas, areaMap, data.width);
+		return {areas, areaMap, chokepoints: this.findChokepoints(areas, areaMap, data.width, maxWidth, minSide)};
+	}
+
+	/**
+	 * Splits the conquerable tiles between spawns, each tile goes to the spawn it is cheapest to expand to
+	 *
+	 * Costs are the sum of the expansion costs of the entered tiles, water and other tiles that can't be
+	 * conquered are not crossed. Ties go to the spawn listed first.
+	 *
+	 * @param data map to score
+	 * @param spawns spawns to compare, each must be on a conquerable tile
+	 * @returns territory of each spawn and the overall score
+	 * @throws CodecException if there are no spawns or a spawn isn't on a conquerable tile inside the map
+	 */
+	scoreSpawns(data: RawMapData, spawns: MapPoint[]): SpawnFairness {
+		if (spawns.length === 0) {
+			throw new CodecException("At least one spawn is needed to score spawn fairness");
+		}
+		const size = data.tiles.length;
+		const cost = new Float64Array(size).fill(Infinity);
+		const owner = new Int32Array(size).fill(-1);
+		const queue = new TileQueue();
+		spawns.forEach((spawn, i) => {
+			const tile = spawn.y * data.width + spawn.x;
+			if (!Number.isInteger(spawn.x) || !Number.isInteger(spawn.y) || spawn.x < 0 || spawn.y < 0 || spawn.x >= data.width || spawn.y >= data.height || !data.types[data.tiles[tile]].conquerable) {
+				throw new CodecException(`Spawn at ${spawn.x}, ${spawn.y} is not on a conquerable tile of the map`);
+			}
+			if (cost[tile] === 0) return; //duplicate spawn, the first one keeps the tile
+			cost[tile] = 0;
+			queue.push(0, i, tile);
+		});
+
+		const results = spawns.map(spawn => ({x: spawn.x, y: spawn.y, territory: 0, averageCost: 0}));
+		let unclaimed = 0;
+		while (queue.length > 0) {
+			const {priority, spawn, tile} = queue.pop();
+			if (owner[tile] !== -1) continue;
+			owner[tile] = spawn;
+			results[spawn].territory++;
+			results[spawn].averageCost += priority;
+
+			const x = tile % data.width;
+			const neighbours = [x > 0 ? tile - 1 : -1, x < data.width - 1 ? tile + 1 : -1, tile - data.width, tile + data.width];
+			for (const neighbour of neighbours) {
+				if (neighbour < 0 || neighbour >= size || owner[neighbour] !== -1) continue;
+				const type = data.types[data.tiles[neighbour]];
+				if (!type.conquerable) continue;
+				const next = priority + Math.max(1, type.expansionCost);
+				if (next <= cost[neighbour]) {
+					cost[neighbour] = next;
+					queue.push(next, spawn, neighbour);
+				}
+			}
+		}
+		for (let i = 0; i < size; i++) {
+			if (owner[i] === -1 && data.types[data.tiles[i]].conquerable) unclaimed++;
+		}
+
+		for (const result of results) {
+			if (result.territory > 0) result.averageCost /= result.territory;
+		}
+		const territories = results.map(result => result.territory);
+		const largest = Math.max(...territories);
+		return {spawns: results, score: largest === 0 ? 1 : Math.min(...territories) / largest, unclaimedTiles: unclaimed};
+	}
+
+	/**
+	 * Counts the tiles, perimeter and shared borders of each area, the map edge counts towards the perimeter
+	 * @param areas areas to fill in
+	 * @param areaMap area of each tile
+	 * @param width map width
+	 * @private
+	 */
+	private measureAreas(areas: MapArea[], areaMap: Uint32Array, width: number) {
+		const borders = areas.map(() => new Map<number, number>());
+		const height = areaMap.length / width;
+		for (let i = 0; i < areaMap.length; i++) {
+			const area = areas[areaMap[i]];
+			area.area++;
+			const x = i % width;
+			const y = (i - x) / width;
+			if (x === 0) area.perimeter++;
+			if (y === 0) area.perimeter++;
+			if (x === width - 1) area.perimeter++;
+			else this.addBorder(areas, borders, areaMap[i], areaMap[i + 1]);
+			if (y === height - 1) area.perimeter++;
+			else this.addBorder(areas, borders, areaMap[i], areaMap[i + width]);
+		}
+		borders.forEach((border, id) => {
+			areas[id].neighbours = [...border].sort((a, b) => a[0] - b[0]).map(([area, borderLength]) => ({area, borderLength}));
+		});
+	}
+
+	/**
+	 * Records an edge between two tiles if they belong to different areas
+	 * @param areas all areas
+	 * @param borders shared border length per pair of areas
+	 * @param a area of the first tile
+	 * @param b area of the second tile
+	 * @private
+	 */
+	private addBorder(areas: MapArea[], borders: Map<number, number>[], a: number, b: number) {
+		if (a === b) return;
+		areas[a].perimeter++;
+		areas[b].perimeter++;
+		borders[a].set(b, (borders[a].get(b) ?? 0) + 1);
+		borders[b].set(a, (borders[b].get(a) ?? 0) + 1);
+	}
+
+	/**
+	 * Finds passages of land and water areas that are at most maxWidth tiles wide
+	 *
+	 * Each area is eroded until passages of the maximum width disappear, which splits it into cores.
+	 * The cores are then grown back, and where two of them meet lies a passage. Its width is
+	 * approximated by the length of the front where both meet.
+	 *
+	 * @param areas all areas
+	 * @param areaMap area of each tile
+	 * @param width map width
+	 * @param maxWidth maximum passage width in tiles
+	 * @param minSide minimum number of tiles on both sides of a passage
+	 * @returns chokepoints, ordered by area
+	 * @private
+	 */
+	private findChokepoints(areas: MapArea[], areaMap: Uint32Array, width: number, maxWidth: number, minSide: number): Chokepoint[] {
+		const size = areaMap.length;
+		const neighbours = (tile: number) => {
+			const x = tile % width;
+			return [x > 0 ? tile - 1 : -1, x < width - 1 ? tile + 1 : -1, tile >= width ? tile - width : -1, tile + width < size ? tile + width : -1];
+		};
+
+		//distance of each tile to the nearest tile outside its area, the map edge counts as outside
+		const depth = new Uint32Array(size);
+		let queue: number[] = [];
+		for (let i = 0; i < size; i++) {
+			if (neighbours(i).some(neighbour => neighbour === -1 || areaMap[neighbour] !== areaMap[i])) {
+				depth[i] = 1;
+				queue.push(i);
+			}
+		}
+		for (let head = 0; head < queue.length; head++) {
+			for (const neighbour of neighbours(queue[head])) {
+				if (neighbour !== -1 && !depth[neighbour]) {
+					depth[neighbour] = depth[queue[head]] + 1;
+					queue.push(neighbour);
+				}
+			}
+		}
+
+		//label the cores, then grow them back through the eroded tiles of their area
+		const erosion = Math.ceil(maxWidth / 2);
+		const label = new Int32Array(size).fill(-1);
+		const passable = (tile: number) => areas[areaMap[tile]].kind !== "impassable";
+		let labelCount = 0;
+		for (let i = 0; i < size; i++) {
+			if (label[i] !== -1 || depth[i] <= erosion || !passable(i)) continue;
+			const stack = [i];
+			label[i] = labelCount;
+			while (stack.length > 0) {
+				for (const neighbour of neighbours(stack.pop() as number)) {
+					if (neighbour !== -1 && label[neighbour] === -1 && depth[neighbour] > erosion && areaMap[neighbour] === areaMap[i]) {
+						label[neighbour] = labelCount;
+						stack.push(neighbour);
+					}
+				}
+			}
+			labelCount++;
+		}
+		queue = [];
+		for (let i = 0; i < size; i++) {
+			if (label[i] !== -1) queue.push(i);
+		}
+		for (let head = 0; head < queue.length; head++) {
+			const tile = queue[head];
+			for (const neighbour of neighbours(tile)) {
+				if (neighbour !== -1 && label[neighbour] === -1 && areaMap[neighbour] === areaMap[tile]) {
+					label[neighbour] = label[tile];
+					queue.push(neighbour);
+				}
+			}
+		}
+
+		const sideSizes = new Uint32Array(labelCount);
+		const fronts = new Map<string, number[]>();
+		for (let i = 0; i < size; i++) {
+			if (label[i] === -1) continue;
+			sideSizes[label[i]]++;
+			for (const neighbour of [i % width < width - 1 ? i + 1 : -1, i + width < size ? i + width : -1]) {
+				if (neighbour === -1 || label[neighbour] === -1 || label[neighbour] === label[i] || areaMap[neighbour] !== areaMap[i]) continue;
+				const key = `${Math.min(label[i], label[neighbour])},${Math.max(label[i], label[neighbour])}`;
+				const front = fronts.get(key);
+				if (front) front.push(i);
+				else fronts.set(key, [i]);
+			}
+		}
+
+		const chokepoints: Chokepoint[] = [];
+		for (const [key, front] of fronts) {
+			const [a, b] = key.split(",").map(Number);
+			const sides = [sideSizes[a], sideSizes[b]].sort((x, y) => x - y) as [number, number];
+			if (sides[0] < minSide) continue;
+			//two cores can meet in several separate passages
+			for (const passage of this.splitFront(front, width)) {
+				if (passage.length > maxWidth) continue;
+				const tile = passage[passage.length >> 1];
+				chokepoints.push({area: areaMap[tile], x: tile % width, y: Math.floor(tile / width), width: passage.length, sides});
+			}
+		}
+		return chokepoints.sort((a, b) => a.area - b.area || a.y - b.y || a.x - b.x);
+	}
+
+	/**
+	 * Splits the front between two cores into connected parts, tiles touching diagonally are connected
+	 * @param front tiles on one side of the front, ascending
+	 * @param width map width
+	 * @returns tiles of each part, ascending
+	 * @private
+	 */
+	private splitFront(front: number[], width: number): number[][] {
+		const remaining = new Set(front);
+		const parts: number[][] = [];
+		for (const start of front) {
+			if (!remaining.has(start)) continue;
+			remaining.delete(start);
+			const part = [start];
+			for (let head = 0; head < part.length; head++) {
+				const x = part[head] % width;
+				for (let dy = -1; dy <= 1; dy++) {
+					for (let dx = -1; dx <= 1; dx++) {
+						const neighbour = part[head] + dy * width + dx;
+						if (x + dx >= 0 && x + dx < width && remaining.has(neighbour)) {
+							remaining.delete(neighbour);
+							part.push(neighbour);
+						}
+					}
+				}
+			}
+			parts.push(part.sort((a, b) => a - b));
+		}
+		return parts;
+	}
+}
+
+/**
+ * Binary min-heap of tiles, ordered by priority and then by spawn index
+ */
+class TileQueue {
+	private readonly priorities: number[] = [];
+	private readonly spawns: number[] = [];
+	private readonly tiles: number[] = [];
+
+	get length(): number {
+		return this.tiles.length;
+	}
+
+	/**
+	 * @param priority accumulated cost
+	 * @param spawn index of the spawn expanding to the tile
+	 * @param tile tile index
+	 */
+	push(priority: number, spawn: number, tile: number) {
+		this.priorities.push(priority);
+		this.spawns.push(spawn);
+		this.tiles.push(tile);
+		let i = this.tiles.length - 1;
+		while (i > 0) {
+			const parent = (i - 1) >> 1;
+			if (!this.less(i, parent)) break;
+			this.swap(i, parent);
+			i = parent;
+		}
+	}
+
+	/**
+	 * @returns entry with the lowest priority, the queue must not be empty
+	 */
+	pop(): {priority: number, spawn: number, tile: number} {
+		const result = {priority: this.priorities[0], spawn: this.spawns[0], tile: this.tiles[0]};
+		const last = this.tiles.length - 1;
+		this.swap(0, last);
+		this.priorities.pop();
+		this.spawns.pop();
+		this.tiles.pop();
+		let i = 0;
+		while (true) {
+			const left = 2 * i + 1;
+			const right = left + 1;
+			let smallest = i;
+			if (left < last && this.less(left, smallest)) smallest = left;
+			if (right < last && this.less(right, smallest)) smallest = right;
+			if (smallest === i) break;
+			this.swap(i, smallest);
+			i = smallest;
+		}
+		return result;
+	}
+
+	/**
+	 * @param a first entry
+	 * @param b second entry
+	 * @returns whether the first entry comes before the second
+	 * @private
+	 */
+	private less(a: number, b: number): boolean {
+		return this.priorities[a] < this.priorities[b] || this.priorities[a] === this.priorities[b] && this.spawns[a] < this.spawns[b];
+	}
+
+	/**
+	 * @param a first entry
+	 * @param b second entry
+	 * @private
+	 */
+	private swap(a: number, b: number) {
+		[this.priorities[a], this.priorities[b]] = [this.priorities[b], this.priorities[a]];
+		[this.spawns[a], this.spawns[b]] = [this.spawns[b], this.spawns[a]];
+		[this.tiles[a], this.tiles[b]] = [this.tiles[b], this.tiles[a]];
+	}
+}
+
+export const mapAnalyzer = new MapAnalyzer();
\ No newline at end of file
@@ -1,5 +1,10 @@
 import type {StreamReader} from "./util/StreamReader";
-import type {RawMapData, TileType} from "../MapCodec";
+import type {RawMapData, TilePalette, TileType} from "../MapCodec";
+import type {PaletteRegistry} from "./PaletteRegistry";
+import type {LineFormat} from "./LineCoding";
+import {LineReader} from "./LineReader";
+import {DEFAULT_LINE_FORMAT, openLineSource} from "./LineCoding";
+import {TypeIndexException} from "./util/CodecException";
 
 class MapDecoder {
 	/**
@@ -7,50 +12,130 @@ class MapDecoder {
 	 * @param reader reader to use
 	 * @param width map width
 	 * @param height map height
+	 * @param palettes registry to resolve palette references from, null for versions without palettes
 	 * @returns decompressed map data
+	 * @throws UnknownPaletteException if the map uses a palette that is not in the registry
+	 * @throws CodecException if the line data is corrupted
 	 */
-	readCompressed(reader: StreamReader, width: number, height: number): RawMapData {
-		reader.readBits(8); //reserved for future use
-		const direction = reader.readBoolean(); //false if left-to-right, true if top-to-bottom
-		reader.readBits(1); //reserved for future use
+	readCompressed(reader: StreamReader, width: number, height: number, palettes: PaletteRegistry | null): RawMapData {
+		const header = this.readHeader(reader, palettes);
+		const tiles = this.readGrid(reader, header, width, height, header.types.length);
+		return {width, height, tiles, types: header.types};
+	}
 
-		const tileTypes = this.readTypeMap(reader);
+	/**
+	 * Reads a grid of values written by MapEncoder.writeValues
+	 * @param reader reader to use
+	 * @param width map width
+	 * @param height map height
+	 * @param valueCount number of possible values
+	 * @returns one value per tile
+	 * @throws CodecException if the line data is corrupted
+	 */
+	readValues(reader: StreamReader, width: number, height: number, valueCount: number): Uint16Array {
+		return this.readGrid(reader, this.readGridHeader(reader), width, height, valueCount);
+	}
 
-		const typeLength = Math.ceil(Math.log2(tileTypes.length));
+	/**
+	 * Reads the compression header and type map, leaving the reader at the start of the lines
+	 * @param reader reader to use
+	 * @param palettes registry to resolve palette references from, null for versions without palettes
+	 * @returns fill direction, line coding, line format, tile types and the used palette
+	 * @throws UnknownPaletteException if the map uses a palette that is not in the registry
+	 */
+	readHeader(reader: StreamReader, palettes: PaletteRegistry | null): CompressionHeader {
+		const header = this.readGridHeader(reader);
+		return {...header, ...this.readTypeMap(reader, palettes)};
+	}
+
+	/**
+	 * Reads the compression header without the type map
+	 * @param reader reader to use
+	 * @returns fill direction, line coding and line format
+	 * @private
+	 */
+	private readGridHeader(reader: StreamReader): GridHeader {
+		//0 for maps encoded before version 5, which always used the default format
+		const chunkBits = reader.readBits(4) || DEFAULT_LINE_FORMAT.chunkBits;
+		const lengthBits = reader.readBits(4) || DEFAULT_LINE_FORMAT.lengthBits;
+		const direction = reader.readBoolean(); //false if left-to-right, true if top-to-bottom
+		const entropyCoded = reader.readBoolean();
+		return {direction, entropyCoded, format: {chunkBits, lengthBits}};
+	}
 
+	/**
+	 * Reads the lines of a grid and fills the gaps between them
+	 * @param reader reader to use, positioned at the line count
+	 * @param header compression header of the grid
+	 * @param width map width
+	 * @param height map height
+	 * @param valueCount number of possible values
+	 * @returns one value per tile
+	 * @private
+	 */
+	private readGrid(reader: StreamReader, header: GridHeader, width: number, height: number, valueCount: number): Uint16Array {
 		const result = new Uint16Array(width * height);
-		const valueMap: boolean[] = [];
-		this.putLines(reader, result, valueMap, width, typeLength);
-		if (direction) {
+		const valueMap = new Uint8Array(width * height);
+		this.putLines(reader, result, valueMap, width, height, valueCount, header.entropyCoded, header.format);
+		if (header.direction) {
 			this.fillLinesTopToBottom(result, valueMap, width);
 		} else {
 			this.fillLinesLeftToRight(result, valueMap);
 		}
-		return {width, height, tiles: result, types: tileTypes};
+		return result;
 	}
 
 	/**
-	 * Reads the type map
+	 * Reads the type map, attribute values are stored after the tiles so the types have none here
 	 * @param reader reader to use
-	 * @returns list of tile types
+	 * @param palettes registry to resolve palette references from, null for versions without palettes
+	 * @returns list of tile types and the used palette
+	 * @throws UnknownPaletteException if the map uses a palette that is not in the registry
+	 * @throws TypeIndexException if a type references an index outside the palette
 	 * @private
 	 */
-	private readTypeMap(reader: StreamReader): TileType[] {
+	private readTypeMap(reader: StreamReader, palettes: PaletteRegistry | null): {types: TileType[], palette: TilePalette | null} {
+		let palette: TilePalette | null = null;
+		if (palettes && reader.readBoolean()) {
+			const id = reader.readString(32);
+			const version = reader.readBits(16);
+			palette = palettes.resolve(id, version, reader.readBits(32));
+		}
+
 		const typeMapLength = reader.readBits(16);
 		const types = [];
 		for (let i = 0; i < typeMapLength; i++) {
-			reader.readBits(3); //reserved for future use
-			types.push({
-				name: reader.readString(32),
-				colorBase: reader.readString(16),
-				colorVariant: reader.readBits(4),
-				conquerable: reader.readBoolean(),
-				navigable: reader.readBoolean(),
-				expansionTime: reader.readBits(8),
-				expansionCost: reader.readBits(8)
-			});
+			if (palette && reader.readBoolean()) {
+				const index = reader.readBits(16);
+				if (index >= palette.types.length) {
+					throw new TypeIndexException(`Type ${i} references palette type ${index}, palette ${palette.id} only has ${palette.types.length} types`);
+				}
+				const type = {...palette.types[index]};
+				delete type.attributes;
+				types.push(type);
+			} else {
+				types.push(this.readTileType(reader));
+			}
 		}
-		return types;
+		return {types, palette};
+	}
+
+	/**
+	 * Reads a single tile type
+	 * @param reader reader to use
+	 * @returns tile type
+	 */
+	readTileType(reader: StreamReader): TileType {
+		reader.readBits(3); //reserved for future use
+		return {
+			name: reader.readString(32),
+			colorBase: reader.readString(16),
+			colorVariant: reader.readBits(4),
+			conquerable: reader.readBoolean(),
+			navigable: reader.readBoolean(),
+			expansionTime: reader.readBits(8),
+			expansionCost: reader.readBits(8)
+		};
 	}
 
 	/**
@@ -59,29 +144,22 @@ class MapDecoder {
 	 * @param result array to write to
 	 * @param valueMap map of values that have already been written
 	 * @param width map width
-	 * @param typeLength length of type ids
+	 * @param height map height
+	 * @param typeCount number of known tile types
+	 * @param entropyCoded whether the lines are entropy coded
+	 * @param format line format of the map
 	 * @private
 	 */
-	private putLines(reader: StreamReader, result: Uint16Array, valueMap: boolean[], width: number, typeLength: number) {
+	private putLines(reader: StreamReader, result: Uint16Array, valueMap: Uint8Array, width: number, height: number, typeCount: number, entropyCoded: boolean, format: LineFormat) {
 		const lineCount = reader.readBits(32);
 
-		let currentChunk = 0;
+		const source = openLineSource(reader, entropyCoded, typeCount, format);
+		const lineReader = new LineReader(width, height, typeCount, format);
 		for (let i = 0; i < lineCount; i++) {
-			while (reader.readBoolean()) {
-				currentChunk++;
-			}
-			reader.readBits(1); //reserved for future use
-			const length = reader.readBits(8) + 1;
-			const type = reader.readBits(typeLength);
-			let position = reader.readBits(10);
-			position = (position % 32) + (currentChunk % Math.ceil(width / 32)) * 32 + Math.floor(position / 32) * width + Math.floor(currentChunk / Math.ceil(width / 32)) * 32 * width;
-			result[position] = type;
-			valueMap[position] = true;
-			for (let j = 1; j < length; j++) {
-				const diff = reader.readBits(2);
-				position += diff === 0 ? 1 : diff === 1 ? -1 : diff === 2 ? width : -width;
-				result[position] = type;
-				valueMap[position] = true;
+			lineReader.read(source);
+			for (let j = 0; j < lineReader.length; j++) {
+				result[lineReader.positions[j]] = lineReader.type;
+				valueMap[lineReader.positions[j]] = 1;
 			}
 		}
 	}
@@ -92,7 +170,7 @@ class MapDecoder {
 	 * @param valueMap map of values that have already been written
 	 * @private
 	 */
-	private fillLinesLeftToRight(result: Uint16Array, valueMap: boolean[]) {
+	private fillLinesLeftToRight(result: Uint16Array, valueMap: Uint8Array) {
 		let current = 0;
 		for (let i = 0; i < result.length; i++) {
 			if (valueMap[i]) {
@@ -109,15 +187,31 @@ class MapDecoder {
 	 * @param width map width
 	 * @private
 	 */
-	private fillLinesTopToBottom(result: Uint16Array, valueMap: boolean[], width: number) {
+	private fillLinesTopToBottom(result: Uint16Array, valueMap: Uint8Array, width: number) {
 		let current = 0;
-		for (let i = 0; i < result.length - 1; i = i >= result.length - width ? (i + 1) % width : i + width) {
-			if (valueMap[i]) {
-				current = result[i];
+		for (let x = 0; x < width; x++) {
+			for (let i = x; i < result.length; i += width) {
+				if (valueMap[i]) {
+					current = result[i];
+				}
+				result[i] = current;
 			}
-			result[i] = current;
 		}
 	}
 }
 
+type GridHeader = {
+	/** false if left-to-right, true if top-to-bottom */
+	direction: boolean;
+	/** whether the lines are entropy coded instead of using fixed-size fields */
+	entropyCoded: boolean;
+	format: LineFormat;
+}
+
+type CompressionHeader = GridHeader & {
+	types: TileType[];
+	/** palette referenced by the type map, null if all types are stored in full */
+	palette: TilePalette | null;
+}
+
 export const mapDecoder = new MapDecoder();
\ No newline at end of file
@@ -1,183 +1,392 @@
-import type {RawMapData, TileType} from "../MapCodec";
+import type {EncodeOptions, EncodePreset, EncodeProgress, RawMapData, TilePalette, TileType} from "../MapCodec";
 import type {LazyWriter} from "./util/LazyWriter";
-import type {TileZone} from "./util/ZoneCalculator";
+import type {TileZone, ValueGrid, ZoneMap} from "./util/ZoneCalculator";
+import type {LineFormat, LineSink} from "./LineCoding";
 import {ZoneCalculator} from "./util/ZoneCalculator";
 import {CodecException} from "./util/CodecException";
+import {PaletteRegistry, paletteRegistry} from "./PaletteRegistry";
+import {DEFAULT_LINE_FORMAT, EntropyLineSink, RawLineSink} from "./LineCoding";
+
+const PRESETS: Record<EncodePreset, EncodeSettings> = {
+	fast: {direction: "leftToRight", lineCoding: "raw", searchRadius: 4, chunkSize: 32, maxLineLength: 256},
+	balanced: {direction: "auto", lineCoding: "auto", searchRadius: 8, chunkSize: 32, maxLineLength: 256},
+	max: {direction: "auto", lineCoding: "auto", searchRadius: 16, chunkSize: 32, maxLineLength: 1024}
+};
 
 class MapEncoder {
 	width: number = 0;
+	private settings: EncodeSettings = PRESETS.balanced;
+	private format: LineFormat = DEFAULT_LINE_FORMAT;
+	private onProgress: ((progress: EncodeProgress) => void) | null = null;
+	private lastPhase: EncodeProgress["phase"] | null = null;
+	private lastPercent: number = 0;
+	private linesCompleted: number = 0;
+	private linesTotal: number = 0;
 
 	/**
 	 * Writes compressed map data to a writer
+	 *
+	 * Types no tile uses are left out of the type map, tile values are remapped to the remaining types.
+	 *
+	 * @param writer writer to use
+	 * @param data map data to compress, must have passed validation
+	 * @param options compression options
+	 * @returns written types, index = value in the written tile map
+	 * @throws CodecException if the options or the palette are invalid
+	 */
+	writeCompressed(writer: LazyWriter, data: RawMapData, options: EncodeOptions = {}): TileType[] {
+		const palette = options.palette ?? null;
+		if (palette) paletteRegistry.check(palette);
+		const {grid, types} = this.compactTypes(data);
+		this.writeGrid(writer, grid, types.length, options, () => this.writeTypeMap(writer, types, palette));
+		return types;
+	}
+
+	/**
+	 * Removes types no tile uses
+	 * @param data map data to compact
+	 * @returns tiles referencing the used types and the used types in their original order
+	 * @private
+	 */
+	private compactTypes(data: RawMapData): {grid: ValueGrid, types: TileType[]} {
+		const remap = new Int32Array(data.types.length).fill(-1);
+		for (let i = 0; i < data.tiles.length; i++) {
+			remap[data.tiles[i]] = 0;
+		}
+		const types: TileType[] = [];
+		for (let i = 0; i < data.types.length; i++) {
+			if (remap[i] !== -1) {
+				remap[i] = types.length;
+				types.push(data.types[i]);
+			}
+		}
+		if (types.length === data.types.length) {
+			return {grid: data, types};
+		}
+
+		const tiles = new Uint16Array(data.tiles.length);
+		for (let i = 0; i < tiles.length; i++) {
+			tiles[i] = remap[data.tiles[i]];
+		}
+		return {grid: {width: data.width, height: data.height, tiles}, types};
+	}
+
+	/**
+	 * Writes a grid of values with the zone and line scheme of the tiles, but without a type map
 	 * @param writer writer to use
-	 * @param data map data to compress
-	 * @throws CodecException if map couldn't be compressed
+	 * @param grid dimensions and values, one per tile
+	 * @param valueCount number of possible values, all values must be smaller
+	 * @param options compression options
+	 * @throws CodecException if the options are invalid
 	 */
-	writeCompressed(writer: LazyWriter, data: RawMapData): void {
-		writer.writeBits(8, 0); //reserved for future use
-		this.width = data.width;
+	writeValues(writer: LazyWriter, grid: ValueGrid, valueCount: number, options: EncodeOptions = {}): void {
+		this.writeGrid(writer, grid, valueCount, options, () => {});
+	}
 
-		const zones = ZoneCalculator.buildZones(data);
+	/**
+	 * Writes the compression header and the lines of a grid
+	 * @param writer writer to use
+	 * @param grid dimensions and values, one per tile
+	 * @param valueCount number of possible values
+	 * @param options compression options
+	 * @param writeTable writes the value table between the header and the lines
+	 * @throws CodecException if the options are invalid
+	 * @private
+	 */
+	private writeGrid(writer: LazyWriter, grid: ValueGrid, valueCount: number, options: EncodeOptions, writeTable: () => void) {
+		this.settings = MapEncoder.resolveOptions(options);
+		this.onProgress = options.onProgress ?? null;
+		this.lastPhase = null;
+		this.format = {chunkBits: Math.log2(this.settings.chunkSize), lengthBits: Math.log2(this.settings.maxLineLength)};
+		writer.writeBits(4, this.format.chunkBits);
+		writer.writeBits(4, this.format.lengthBits);
+		this.width = grid.width;
+
+		const zoneMap = ZoneCalculator.buildZones(grid, (completed, total) => this.reportProgress("zones", completed, total));
+
+		const typeLength = Math.ceil(Math.log2(valueCount));
+
+		const lines = this.calculateLines(writer, zoneMap, typeLength);
+
+		let entropyCoded: Uint8Array | null = null;
+		if (this.settings.lineCoding !== "raw") {
+			const entropySink = new EntropyLineSink(typeLength, this.format);
+			this.writeLines(entropySink, lines);
+			entropyCoded = entropySink.finish();
+			if (this.settings.lineCoding === "auto" && 32 + entropyCoded.length * 8 >= this.calculateCost(lines, typeLength)) {
+				entropyCoded = null;
+			}
+		}
+		writer.writeBoolean(entropyCoded !== null);
 
-		const types = this.validateTileTypeUsage(data.types, zones);
-		const typeLength = Math.ceil(Math.log2(types.length));
+		writeTable();
+		writer.writeBits(32, lines.length);
+		if (entropyCoded) {
+			writer.writeBits(32, entropyCoded.length);
+			writer.writeBytes(entropyCoded);
+		} else {
+			this.writeLines(new RawLineSink(writer, typeLength, this.format), lines);
+		}
+	}
 
-		const lines = this.calculateLines(writer, zones, typeLength);
+	/**
+	 * Applies explicit options on top of their preset
+	 * @param options options to resolve
+	 * @returns complete settings
+	 * @throws CodecException if an option is invalid
+	 * @private
+	 */
+	private static resolveOptions(options: EncodeOptions): EncodeSettings {
+		const preset = PRESETS[options.preset ?? "balanced"];
+		if (!preset) {
+			throw new CodecException(`Unknown encode preset: ${options.preset}`);
+		}
+		const settings: EncodeSettings = {
+			direction: options.direction ?? preset.direction,
+			lineCoding: options.lineCoding ?? preset.lineCoding,
+			searchRadius: options.searchRadius ?? preset.searchRadius,
+			chunkSize: options.chunkSize ?? preset.chunkSize,
+			maxLineLength: options.maxLineLength ?? preset.maxLineLength
+		};
+		if (!["auto", "leftToRight", "topToBottom"].includes(settings.direction)) {
+			throw new CodecException(`Unknown fill direction: ${settings.direction}`);
+		}
+		if (!["auto", "raw", "entropy"].includes(settings.lineCoding)) {
+			throw new CodecException(`Unknown line coding: ${settings.lineCoding}`);
+		}
+		if (!Number.isInteger(settings.searchRadius) || settings.searchRadius < 1 || settings.searchRadius > 64) {
+			throw new CodecException(`Search radius must be an integer between 1 and 64, got ${settings.searchRadius}`);
+		}
+		if (!MapEncoder.isFormatSize(settings.chunkSize)) {
+			throw new CodecException(`Chunk size must be a power of two between 2 and 32768, got ${settings.chunkSize}`);
+		}
+		if (!MapEncoder.isFormatSize(settings.maxLineLength)) {
+			throw new CodecException(`Max line length must be a power of two between 2 and 32768, got ${settings.maxLineLength}`);
+		}
+		return settings;
+	}
 
-		writer.writeBits(1, 0); //reserved for future use
+	/**
+	 * Passes progress to the listener, at most once per percent of each phase
+	 * @param phase current phase
+	 * @param completed completed work in the phase
+	 * @param total total work in the phase
+	 * @private
+	 */
+	private reportProgress(phase: EncodeProgress["phase"], completed: number, total: number) {
+		if (!this.onProgress) return;
+		const percent = Math.floor(completed * 100 / total);
+		if (phase === this.lastPhase && percent === this.lastPercent) return;
+		this.lastPhase = phase;
+		this.lastPercent = percent;
+		this.onProgress({phase, completed, total});
+	}
 
-		this.writeTypeMap(writer, data.types);
-		this.writeLines(writer, lines, typeLength);
+	/**
+	 * @param value value to check
+	 * @returns whether the value can be stored as a 4-bit exponent in the compression header
+	 * @private
+	 */
+	private static isFormatSize(value: number): boolean {
+		return Number.isInteger(value) && value >= 2 && value <= 32768 && (value & (value - 1)) === 0;
 	}
 
 	/**
 	 * Writes the type map, note that type ids are limited to 16 bits
+	 *
+	 * With a palette, types found in it are stored as palette indices and only the others are stored in full.
+	 *
 	 * @param writer writer to use
-	 * @param typeMap map of zone type ids to game type ids
+	 * @param typeMap used tile types, index = value in the written tile map
+	 * @param palette shared palette to reference, null to store all types in full
 	 * @private
 	 */
-	private writeTypeMap(writer: LazyWriter, typeMap: TileType[]) {
+	private writeTypeMap(writer: LazyWriter, typeMap: TileType[], palette: TilePalette | null) {
+		writer.writeBoolean(palette !== null);
+		const paletteIndices = new Map<string, number>();
+		if (palette) {
+			writer.writeString(32, palette.id);
+			writer.writeBits(16, palette.version);
+			writer.writeBits(32, paletteRegistry.hash(palette));
+			for (let i = palette.types.length - 1; i >= 0; i--) {
+				paletteIndices.set(PaletteRegistry.typeKey(palette.types[i]), i);
+			}
+		}
+
 		writer.writeBits(16, typeMap.length);
 		for (let i = 0; i < typeMap.length; i++) {
-			writer.writeBits(3, 0); //reserved for future use
-			writer.writeString(32, typeMap[i].name);
-			writer.writeString(16, typeMap[i].colorBase);
-			writer.writeBits(4, typeMap[i].colorVariant);
-			writer.writeBoolean(typeMap[i].conquerable);
-			writer.writeBoolean(typeMap[i].navigable);
-			writer.writeBits(8, typeMap[i].expansionTime);
-			writer.writeBits(8, typeMap[i].expansionCost);
+			if (palette) {
+				const index = paletteIndices.get(PaletteRegistry.typeKey(typeMap[i]));
+				writer.writeBoolean(index !== undefined);
+				if (index !== undefined) {
+					writer.writeBits(16, index);
+					continue;
+				}
+			}
+			this.writeTileType(writer, typeMap[i]);
 		}
 	}
 
 	/**
-	 * Writes compressed lines
+	 * Writes a single tile type
 	 * @param writer writer to use
+	 * @param type tile type to write, must have passed validation
+	 */
+	writeTileType(writer: LazyWriter, type: TileType): void {
+		writer.writeBits(3, 0); //reserved for future use
+		writer.writeString(32, type.name);
+		writer.writeString(16, type.colorBase);
+		writer.writeBits(4, type.colorVariant);
+		writer.writeBoolean(type.conquerable);
+		writer.writeBoolean(type.navigable);
+		writer.writeBits(8, type.expansionTime);
+		writer.writeBits(8, type.expansionCost);
+	}
+
+	/**
+	 * Writes compressed lines
+	 * @param sink sink to write the line symbols to
 	 * @param lines map lines to write
-	 * @param typeLength length of type ids
 	 * @private
 	 */
-	private writeLines(writer: LazyWriter, lines: LineData[], typeLength: number) {
-		writer.writeBits(32, lines.length);
-
+	private writeLines(sink: LineSink, lines: LineData[]) {
+		const chunkSize = this.settings.chunkSize;
 		let currentChunk = 0;
 		for (const line of lines) {
-			currentChunk = this.checkChunk(writer, currentChunk, line.line[0]);
-			writer.writeBits(1, 0); //reserved for future use
-			writer.writeBits(8, line.line.length - 1);
-			writer.writeBits(typeLength, line.id);
-			writer.writeBits(10, (line.line[0] % this.width) % 32 + Math.floor(line.line[0] / this.width) % 32 * 32);
+			currentChunk = this.checkChunk(sink, currentChunk, line.chunk);
+			sink.writeHeader(line.line.length, line.id, (line.line[0] % this.width) % chunkSize + Math.floor(line.line[0] / this.width) % chunkSize * chunkSize);
 			for (let i = 1; i < line.line.length; i++) {
 				const diff = line.line[i] - line.line[i - 1];
-				writer.writeBits(2, diff === 1 ? 0 : diff === -1 ? 1 : diff === this.width ? 2 : 3);
+				sink.writeDirection(diff === 1 ? 0 : diff === -1 ? 1 : diff === this.width ? 2 : 3);
 			}
 		}
 	}
 
 	/**
 	 * Checks if the current chunk needs to be changed
-	 * @param writer writer to use
+	 * @param sink sink to write the chunk skips to
 	 * @param currentChunk current chunk
-	 * @param position position to check
+	 * @param chunk chunk of the next line
 	 * @returns new chunk
 	 * @private
 	 */
-	private checkChunk(writer: LazyWriter, currentChunk: number, position: number): number {
-		const chunkX = Math.floor((position % this.width) / 32);
-		const chunkY = Math.floor(Math.floor(position / this.width) / 32);
-		const chunk = chunkY * Math.ceil(this.width / 32) + chunkX;
+	private checkChunk(sink: LineSink, currentChunk: number, chunk: number): number {
 		while (chunk !== currentChunk) {
-			writer.writeBits(1, 1);
+			sink.writeChunkSkip(true);
 			currentChunk++;
 		}
-		writer.writeBits(1, 0);
+		sink.writeChunkSkip(false);
 		return currentChunk;
 	}
 
 	/**
-	 * Validates that all and only known tile types are used in the map
-	 * @param types tile types to validate
-	 * @param zones zones to validate
-	 * @returns list of used tile types
+	 * @param position tile index
+	 * @returns index of the chunk containing the tile
 	 * @private
 	 */
-	private validateTileTypeUsage(types: TileType[], zones: TileZone[]): TileType[] {
-		const tileUsage: TileZone[][] = Array(types.length).fill(null).map(() => []);
-		for (const zone of zones) {
-			if (!types[zone.id]) {
-				throw new CodecException(`Unknown tile type: ${zone.id}. Not specified in type map`);
-			}
-			tileUsage[zone.id].push(zone);
-		}
-
-		const usedTypes = [];
-		for (let i = 0; i < types.length; i++) {
-			if (tileUsage[i].length > 0) {
-				usedTypes.push(types[i]);
-				tileUsage[i].forEach(zone => zone.id = usedTypes.length - 1);
-			}
-		}
-		return usedTypes;
+	private getChunk(position: number): number {
+		const chunkSize = this.settings.chunkSize;
+		const chunkX = Math.floor((position % this.width) / chunkSize);
+		const chunkY = Math.floor(Math.floor(position / this.width) / chunkSize);
+		return chunkY * Math.ceil(this.width / chunkSize) + chunkX;
 	}
 
 	/**
-	 * Chunks lines into 32x32 blocks
-	 * @param lines lines to chunk
+	 * Sorts lines by chunk, keeping their order within each chunk
+	 * @param lines lines to sort
 	 * @private
 	 */
-	private chunkLines(lines: LineData[]) {
-		const chunkWidth = Math.ceil(this.width / 32);
-		const chunkMap: number[] = [];
-		for (let i = 0; i < lines.length; i++) {
-			const line = lines[i];
-			const chunkX = Math.floor((line.line[0] % this.width) / 32);
-			const chunkY = Math.floor(Math.floor(line.line[0] / this.width) / 32);
-			chunkMap[i] = chunkY * chunkWidth + chunkX;
-		}
-		lines.sort((a, b) => chunkMap[lines.indexOf(a)] - chunkMap[lines.indexOf(b)]);
+	private static chunkLines(lines: LineData[]) {
+		lines.sort((a, b) => a.chunk - b.chunk);
 	}
 
 	/**
-	 * Calculates lines along the border of each zone
+	 * Calculates lines along the border of each zone, in the configured or the cheaper fill direction
 	 * @param writer writer to use
-	 * @param zones zones to calculate lines for
+	 * @param zoneMap zones to calculate lines for
 	 * @param typeLength length of type ids
 	 * @returns resulting lines
 	 * @private
 	 */
-	private calculateLines(writer: LazyWriter, zones: TileZone[], typeLength: number): LineData[] {
-		const linesL2R: LineData[] = [];
-		const linesT2B: LineData[] = [];
-		for (let zoneId = 0; zoneId < zones.length; zoneId++) {
-			const zone = zones[zoneId];
-			linesL2R.push(...this.calculateNeededLines(zone.leftBorder, zone.leftBorderMap, zoneId + 1, zone.tileMap).map(line => ({id: zone.id, line})));
-			linesT2B.push(...this.calculateNeededLines(zone.topBorder, zone.topBorderMap, zoneId + 1, zone.tileMap).map(line => ({id: zone.id, line})));
+	private calculateLines(writer: LazyWriter, zoneMap: ZoneMap, typeLength: number): LineData[] {
+		const direction = this.settings.direction;
+		const search = this.createSearch(zoneMap.zoneMap);
+		this.linesCompleted = 0;
+		this.linesTotal = 0;
+		for (const zone of zoneMap.zones) {
+			this.linesTotal += (direction !== "topToBottom" ? zone.leftBorder.length : 0) + (direction !== "leftToRight" ? zone.topBorder.length : 0);
 		}
+		const linesL2R = direction !== "topToBottom" ? this.calculateDirectionLines(zoneMap.zones, search, zone => zone.leftBorder) : [];
+		const linesT2B = direction !== "leftToRight" ? this.calculateDirectionLines(zoneMap.zones, search, zone => zone.topBorder) : [];
 
-		this.chunkLines(linesL2R);
-		this.chunkLines(linesT2B);
+		const topToBottom = direction === "auto" ? this.calculateCost(linesL2R, typeLength) > this.calculateCost(linesT2B, typeLength) : direction === "topToBottom";
+		writer.writeBoolean(topToBottom);
+		return topToBottom ? linesT2B : linesL2R;
+	}
 
-		const costL2R = this.calculateCost(linesL2R, typeLength);
-		const costT2B = this.calculateCost(linesT2B, typeLength);
-		writer.writeBoolean(costL2R > costT2B);
-		return costL2R > costT2B ? linesT2B : linesL2R;
+	/**
+	 * Allocates the buffers used by the path search, they are shared by all zones and both fill directions
+	 * @param zoneMap zone of each tile
+	 * @returns search buffers
+	 * @private
+	 */
+	private createSearch(zoneMap: Uint32Array): BorderSearch {
+		const radius = this.settings.searchRadius;
+		const capacity = 2 * radius * (radius + 1) + 1; //tiles within the radius
+		return {
+			zoneMap,
+			borderIndex: new Int32Array(zoneMap.length).fill(-1),
+			visited: new Uint32Array(zoneMap.length),
+			generation: 0,
+			queue: new Int32Array(capacity),
+			parents: new Int32Array(capacity),
+			depths: new Uint8Array(capacity)
+		};
 	}
 
 	/**
-	 * Calculates the cost of a set of lines
+	 * Calculates the chunked lines for one fill direction
+	 * @param zones zones to calculate lines for
+	 * @param search search buffers
+	 * @param border border points of a zone in fill direction
+	 * @returns lines sorted by chunk
+	 * @private
+	 */
+	private calculateDirectionLines(zones: TileZone[], search: BorderSearch, border: (zone: TileZone) => number[]): LineData[] {
+		const lines: LineData[] = [];
+		for (let zoneId = 0; zoneId < zones.length; zoneId++) {
+			const points = border(zones[zoneId]);
+			for (let i = 0; i < points.length; i++) {
+				search.borderIndex[points[i]] = i;
+			}
+			for (const line of this.calculateNeededLines(points, zoneId + 1, search)) {
+				lines.push({id: zones[zoneId].id, chunk: this.getChunk(line[0]), line});
+			}
+			for (let i = 0; i < points.length; i++) {
+				search.borderIndex[points[i]] = -1;
+			}
+			this.linesCompleted += points.length;
+			this.reportProgress("lines", this.linesCompleted, this.linesTotal);
+		}
+		MapEncoder.chunkLines(lines);
+		return lines;
+	}
+
+	/**
+	 * Calculates the cost of a set of lines in raw coding
 	 * @param lines lines to calculate cost for
 	 * @param typeLength length of type ids
-	 * @returns cost of the lines
+	 * @returns cost of the lines in bits
 	 * @private
 	 */
 	private calculateCost(lines: LineData[], typeLength: number): number {
 		let cost = 0;
 
+		const headerCost = 2 + this.format.lengthBits + 2 * this.format.chunkBits + typeLength;
 		let currentChunk = 0;
 		for (const line of lines) {
-			const chunk = Math.floor((line.line[0] % this.width) / 32) + Math.floor(Math.floor(line.line[0] / this.width) / 32) * Math.ceil(this.width / 32);
-			cost += (line.line.length - 1) * 2 + 20 + typeLength + (chunk - currentChunk);
-			currentChunk = chunk;
+			cost += (line.line.length - 1) * 2 + headerCost + (line.chunk - currentChunk);
+			currentChunk = line.chunk;
 		}
 		return cost;
 	}
@@ -188,21 +397,20 @@ class MapEncoder {
 	 * To allow reconstruction of the map, only certain points on the borders are needed.
 	 * Since the overhead of storing positions is pretty high, we can compress the border into lines.
 	 * This greedy algorithm tries to find the shortest possible lines that connect all border points.
-	 * For gaps greater than 8 tiles, multiple lines are used.
+	 * For gaps greater than the search radius, multiple lines are used.
 	 *
 	 * @param points border points
-	 * @param pointMap map of border points
 	 * @param zoneId id of the zone
-	 * @param tileMap map of tiles
+	 * @param search search buffers, with the border index of the zone filled in
 	 * @returns resulting lines
 	 * @private
 	 */
-	private calculateNeededLines(points: number[], pointMap: boolean[], zoneId: number, tileMap: Uint16Array): number[][] {
-		const segments: number[][] = [];
-		const segmentMap: number[] = [];
+	private calculateNeededLines(points: number[], zoneId: number, search: BorderSearch): number[][] {
+		const segments: (LineSegment | null)[] = [];
+		const segmentMap = new Int32Array(points.length);
 
 		const connectionCount = new Uint8Array(points.length);
-		const connectionMap = this.calculateConnections(points, pointMap, zoneId, tileMap);
+		const connectionMap = this.calculateConnections(points, zoneId, search);
 
 		for (let depth = 0; depth < connectionMap.length; depth++) {
 			for (const connection of connectionMap[depth]) {
@@ -210,7 +418,7 @@ class MapEncoder {
 					continue;
 				}
 
-				if (!MapEncoder.processConnection(!connectionCount[connection.from], !connectionCount[connection.to], connection, segments, points, segmentMap)) {
+				if (!MapEncoder.processConnection(!connectionCount[connection.from], !connectionCount[connection.to], connection, segments, points, search.borderIndex, segmentMap)) {
 					continue;
 				}
 
@@ -219,10 +427,13 @@ class MapEncoder {
 			}
 		}
 
-		MapEncoder.cropLines(segments);
-		MapEncoder.addSingles(points, connectionCount, segments);
-
-		return segments.filter(segment => segment.length > 0);
+		const lines: number[][] = [];
+		for (const segment of segments) {
+			if (segment) lines.push(segment.toArray());
+		}
+		MapEncoder.cropLines(lines, this.settings.maxLineLength);
+		MapEncoder.addSingles(points, connectionCount, lines);
+		return lines;
 	}
 
 	/**
@@ -230,86 +441,47 @@ class MapEncoder {
 	 * @param fromIsNew whether the starting point is new
 	 * @param toIsNew whether the ending point is new
 	 * @param connection connection to process
-	 * @param segments lines to add to
+	 * @param segments lines to add to, null for lines merged into another one
 	 * @param border border points
+	 * @param borderIndex index of each tile in the border points, -1 if it is none
 	 * @param segmentMap map of border points to segments
 	 * @returns whether the segments were connected
 	 * @private
 	 */
-	private static processConnection(fromIsNew: boolean, toIsNew: boolean, connection: RawLineData, segments: number[][], border: number[], segmentMap: number[]): boolean {
+	private static processConnection(fromIsNew: boolean, toIsNew: boolean, connection: RawLineData, segments: (LineSegment | null)[], border: number[], borderIndex: Int32Array, segmentMap: Int32Array): boolean {
 		const valueFrom = border[connection.from];
 		const valueTo = border[connection.to];
 		if (fromIsNew && toIsNew) {
-			segments.push([valueFrom, ...connection.path, valueTo]);
+			segments.push(LineSegment.create(valueFrom, connection.path, valueTo));
 			segmentMap[connection.from] = segmentMap[connection.to] = segments.length - 1;
 			return true;
 		}
 
 		if (fromIsNew) {
-			MapEncoder.concatSegment(segments[segmentMap[connection.to]], connection.path, valueTo, valueFrom);
+			(segments[segmentMap[connection.to]] as LineSegment).attach(valueTo, connection.path, valueFrom);
 			segmentMap[connection.from] = segmentMap[connection.to];
 			return true;
 		}
 
 		if (toIsNew) {
-			MapEncoder.concatSegment(segments[segmentMap[connection.from]], connection.path.reverse(), valueFrom, valueTo);
+			(segments[segmentMap[connection.from]] as LineSegment).attach(valueFrom, connection.path.reverse(), valueTo);
 			segmentMap[connection.to] = segmentMap[connection.from];
 			return true;
 		}
 
 		if (segmentMap[connection.from] !== segmentMap[connection.to]) {
-			const start = MapEncoder.connectSegments(segments[segmentMap[connection.from]], segments[segmentMap[connection.to]], valueFrom, valueTo, connection.path);
-			segments[segmentMap[connection.from]] = [];
-			segmentMap[border.indexOf(start)] = segmentMap[connection.to];
+			const segmentA = segments[segmentMap[connection.from]] as LineSegment;
+			const segmentB = segments[segmentMap[connection.to]] as LineSegment;
+			const start = segmentA.first() === valueFrom ? segmentA.last() : segmentA.first();
+			segments[segmentMap[connection.to]] = LineSegment.join(segmentA, segmentB, valueFrom, valueTo, connection.path);
+			segments[segmentMap[connection.from]] = null;
+			segmentMap[borderIndex[start]] = segmentMap[connection.to];
 			return true;
 		}
 
 		return false;
 	}
 
-	/**
-	 * Concatenates a path to a segment
-	 * @param segment segment to concatenate to
-	 * @param path path to concatenate
-	 * @param ending ending point of the segment
-	 * @param toAdd point to add to the segment
-	 * @private
-	 */
-	private static concatSegment(segment: number[], path: number[], ending: number, toAdd: number) {
-		if (segment[0] === ending) {
-			segment.unshift(toAdd, ...path);
-		} else {
-			segment.push(...path.reverse(), toAdd);
-		}
-	}
-
-	/**
-	 * Connects two segments into one
-	 * @param segmentA first segment
-	 * @param segmentB second segment
-	 * @param startA starting point of the first segment
-	 * @param startB starting point of the second segment
-	 * @param path path to connect the segments
-	 * @returns new starting value of the combined segment
-	 * @private
-	 */
-	private static connectSegments(segmentA: number[], segmentB: number[], startA: number, startB: number, path: number[]): number {
-		if (segmentB[0] === startB) {
-			if (segmentA[0] === startA) {
-				segmentB.unshift(...segmentA.reverse(), ...path);
-			} else {
-				segmentB.unshift(...segmentA, ...path);
-			}
-		} else {
-			if (segmentA[0] === startA) {
-				segmentB.push(...path.reverse(), ...segmentA);
-			} else {
-				segmentB.push(...path.reverse(), ...segmentA.reverse());
-			}
-		}
-		return segmentA[0] === startA ? segmentA[segmentA.length - 1] : segmentA[0];
-	}
-
 	/**
 	 * Adds lines for single points
 	 * @param border border points
@@ -328,75 +500,198 @@ class MapEncoder {
 	/**
 	 * Crops lines that are too long, splitting them into multiple lines
 	 * @param lines lines to crop
+	 * @param maxLength maximum number of tiles per line
 	 * @private
 	 */
-	private static cropLines(lines: number[][]) {
+	private static cropLines(lines: number[][], maxLength: number) {
 		for (let i = 0; i < lines.length; i++) {
 			const line = lines[i];
-			if (line && line.length > 256) {
-				lines[i] = line.slice(0, 256);
-				lines.push(line.slice(256));
+			if (line.length > maxLength) {
+				lines[i] = line.slice(0, maxLength);
+				lines.push(line.slice(maxLength));
 			}
 		}
 	}
 
 	/**
-	 * Calculates all potential connections between border points, at most 8 pixels apart
+	 * Calculates all potential connections between border points, at most the search radius apart
 	 * @param points border points
-	 * @param pointMap map of border points
 	 * @param zoneId id of the zone
-	 * @param tileMap map of tiles
+	 * @param search search buffers
 	 * @returns array of connections, indexed by path length
 	 * @private
 	 */
-	private calculateConnections(points: number[], pointMap: boolean[], zoneId: number, tileMap: Uint16Array): RawLineData[][] {
-		const connectionMap: RawLineData[][] = new Array(8).fill(null).map(() => []);
+	private calculateConnections(points: number[], zoneId: number, search: BorderSearch): RawLineData[][] {
+		const connectionMap: RawLineData[][] = new Array(this.settings.searchRadius).fill(null).map(() => []);
 		for (let i = 0; i < points.length; i++) {
-			const paths = this.calculatePaths(points[i], pointMap, zoneId, tileMap);
-			for (const [point, path] of paths) {
-				const index = points.indexOf(point);
-				if (index >= i) continue; //only add each connection once
-				connectionMap[path.length].push({from: i, to: index, path});
-			}
+			this.calculatePaths(i, points[i], zoneId, search, connectionMap);
 		}
 		return connectionMap;
 	}
 
 	/**
-	 * Calculates all paths from a point to all other points
+	 * Calculates all paths from a point to the border points before it
 	 *
-	 * This is a simple breadth-first search, paths are limited to 8 tiles
+	 * This is a simple breadth-first search, paths are limited to the search radius.
+	 * The queue doubles as the path tree, each entry storing the queue index of its parent.
 	 *
+	 * @param index index of the starting point in the border points
 	 * @param start starting point
-	 * @param pointMap map of border points
 	 * @param zoneId id of the zone
-	 * @param tileMap map of tiles
-	 * @returns map of reachable points and their paths
+	 * @param search search buffers
+	 * @param connectionMap connections to add to, indexed by path length
 	 * @private
 	 */
-	private calculatePaths(start: number, pointMap: boolean[], zoneId: number, tileMap: Uint16Array): Map<number, number[]> {
-		const open: number[] = [start];
-		const paths: number[][] = [[]];
-		const visited: boolean[] = [];
-		visited[start] = true;
-		const result: Map<number, number[]> = new Map();
-		while (open.length > 0) {
-			const point = open.shift() as number;
-			const path = paths.shift() as number[];
-			if (pointMap[point]) {
-				result.set(point, path.slice(0, -1));
+	private calculatePaths(index: number, start: number, zoneId: number, search: BorderSearch, connectionMap: RawLineData[][]) {
+		const {zoneMap, borderIndex, visited, queue, parents, depths} = search;
+		const radius = this.settings.searchRadius;
+		const steps = [-1, 1, -this.width, this.width];
+		const generation = ++search.generation;
+		visited[start] = generation;
+		queue[0] = start;
+		parents[0] = -1;
+		depths[0] = 0;
+		let length = 1;
+		for (let head = 0; head < length; head++) {
+			const point = queue[head];
+			const target = borderIndex[point];
+			if (target !== -1 && target < index) { //only add each connection once
+				const path = new Array(depths[head] - 1);
+				for (let node = parents[head], i = path.length - 1; i >= 0; node = parents[node], i--) {
+					path[i] = queue[node];
+				}
+				connectionMap[path.length].push({from: index, to: target, path});
 			}
-			if (path.length < 8) {
-				for (const nextPoint of [point - 1, point + 1, point - this.width, point + this.width]) {
-					if (!visited[nextPoint] && tileMap[nextPoint] === zoneId) {
-						open.push(nextPoint);
-						paths.push([...path, nextPoint]);
-						visited[nextPoint] = true;
+			if (depths[head] < radius) {
+				for (let i = 0; i < 4; i++) {
+					const nextPoint = point + steps[i];
+					if (nextPoint >= 0 && nextPoint < zoneMap.length && visited[nextPoint] !== generation && zoneMap[nextPoint] === zoneId) {
+						visited[nextPoint] = generation;
+						queue[length] = nextPoint;
+						parents[length] = head;
+						depths[length] = depths[head] + 1;
+						length++;
 					}
 				}
 			}
 		}
-		return result;
+	}
+}
+
+/**
+ * Line under construction, stored as two stacks growing away from each other so both ends can be extended cheaply
+ */
+class LineSegment {
+	/** Points before the first back point, in reverse order */
+	private front: number[] = [];
+	/** Remaining points in order */
+	private back: number[] = [];
+
+	/**
+	 * @param from first point
+	 * @param path points between the two points
+	 * @param to last point
+	 * @returns new segment
+	 */
+	static create(from: number, path: number[], to: number): LineSegment {
+		const segment = new LineSegment();
+		segment.back = [from, ...path, to];
+		return segment;
+	}
+
+	/**
+	 * @returns number of points
+	 */
+	get size(): number {
+		return this.front.length + this.back.length;
+	}
+
+	/**
+	 * @returns first point
+	 */
+	first(): number {
+		return this.front.length > 0 ? this.front[this.front.length - 1] : this.back[0];
+	}
+
+	/**
+	 * @returns last point
+	 */
+	last(): number {
+		return this.back.length > 0 ? this.back[this.back.length - 1] : this.front[0];
+	}
+
+	/**
+	 * Reverses the order of the points
+	 */
+	reverse(): void {
+		[this.front, this.back] = [this.back, this.front];
+	}
+
+	/**
+	 * Extends the segment at one of its ends
+	 * @param ending end of the segment to extend
+	 * @param path points leading from the new point to the end
+	 * @param point new end of the segment
+	 */
+	attach(ending: number, path: number[], point: number): void {
+		const target = this.first() === ending ? this.front : this.back;
+		for (let i = path.length - 1; i >= 0; i--) {
+			target.push(path[i]);
+		}
+		target.push(point);
+	}
+
+	/**
+	 * Connects two segments, copying the smaller one into the larger one
+	 * @param segmentA first segment, becomes unusable
+	 * @param segmentB second segment, its direction is kept
+	 * @param startA end of the first segment to connect
+	 * @param startB end of the second segment to connect
+	 * @param path points leading from startA to startB
+	 * @returns combined segment
+	 */
+	static join(segmentA: LineSegment, segmentB: LineSegment, startA: number, startB: number, path: number[]): LineSegment {
+		const atFront = segmentB.first() === startB;
+		if (segmentB.size >= segmentA.size) {
+			const target = atFront ? segmentB.front : segmentB.back;
+			for (let i = path.length - 1; i >= 0; i--) {
+				target.push(path[i]);
+			}
+			if (segmentA.first() !== startA) {
+				segmentA.reverse();
+			}
+			const points = segmentA.toArray();
+			for (let i = 0; i < points.length; i++) {
+				target.push(points[i]);
+			}
+			return segmentB;
+		}
+
+		if ((segmentA.first() === startA) === atFront) {
+			segmentA.reverse();
+		}
+		const target = atFront ? segmentA.back : segmentA.front;
+		for (let i = 0; i < path.length; i++) {
+			target.push(path[i]);
+		}
+		const points = segmentB.toArray();
+		if (atFront) {
+			for (let i = 0; i < points.length; i++) {
+				target.push(points[i]);
+			}
+		} else {
+			for (let i = points.length - 1; i >= 0; i--) {
+				target.push(points[i]);
+			}
+		}
+		return segmentA;
+	}
+
+	/**
+	 * @returns points in order
+	 */
+	toArray(): number[] {
+		return this.front.slice().reverse().concat(this.back);
 	}
 }
 
@@ -408,7 +703,27 @@ type RawLineData = {
 
 type LineData = {
 	id: number;
+	/** Chunk of the first point */
+	chunk: number;
 	line: number[];
 }
 
+type BorderSearch = {
+	/** Zone of each tile */
+	zoneMap: Uint32Array;
+	/** Index of each tile in the border points of the current zone, -1 if it is none */
+	borderIndex: Int32Array;
+	/** Generation of the search that last visited each tile */
+	visited: Uint32Array;
+	generation: number;
+	/** Tiles in visiting order */
+	queue: Int32Array;
+	/** Queue index of the tile each queued tile was reached from */
+	parents: Int32Array;
+	/** Distance of each queued tile from the starting point */
+	depths: Uint8Array;
+}
+
+type EncodeSettings = Required<Omit<EncodeOptions, "preset" | "onProgress" | "palette">>;
+
 export const mapEncoder = new MapEncoder();
\ No newline at end of file
@@ -0,0 +1,277 @@
+import type {GenerateOptions, RawMapData, TerrainBand} from "../MapCodec";
+import {Random} from "./util/Random";
+import {ZoneCalculator} from "./util/ZoneCalculator";
+import {CodecException} from "./util/CodecException";
+
+const DEFAULT_PALETTE: TerrainBand[] = [
+	{maxHeight: 0.45, type: {name: "Ocean", colorBase: "water", colorVariant: 0, conquerable: false, navigable: true, expansionTime: 50, expansionCost: 50}},
+	{maxHeight: 0.5, type: {name: "Coast", colorBase: "sand", colorVariant: 0, conquerable: true, navigable: false, expansionTime: 40, expansionCost: 40}},
+	{maxHeight: 0.7, type: {name: "Plains", colorBase: "grass", colorVariant: 0, conquerable: true, navigable: false, expansionTime: 50, expansionCost: 50}},
+	{maxHeight: 0.85, type: {name: "Hills", colorBase: "hills", colorVariant: 0, conquerable: true, navigable: false, expansionTime: 75, expansionCost: 75}},
+	{maxHeight: 1, type: {name: "Mountains", colorBase: "mountain", colorVariant: 0, conquerable: true, navigable: false, expansionTime: 120, expansionCost: 120}}
+];
+
+/** Connecting landmasses can create new ones on the mirrored side, this bounds the repetitions */
+const MAX_CONNECT_ROUNDS = 8;
+
+class MapGenerator {
+	/**
+	 * Generates a map from fractal value noise
+	 *
+	 * Only additions, multiplications, divisions and 32-bit integer operations are used, which behave
+	 * identically in every JavaScript engine, so the same seed and options always produce the same map.
+	 *
+	 * @param options size, seed, palette and shape of the map
+	 * @returns generated map data
+	 * @throws CodecException if an option is invalid
+	 */
+	generate(options: GenerateOptions): RawMapData {
+		const {width, height} = options;
+		const palette = options.palette ?? DEFAULT_PALETTE;
+		const octaves = options.octaves ?? 5;
+		const scale = options.scale ?? 64;
+		const symmetry = options.symmetry ?? "none";
+		MapGenerator.checkOptions(options, palette, octaves, scale);
+
+		const heights = this.createHeightmap(width, height, options.seed, octaves, scale);
+		this.applySymmetry(heights, width, symmetry);
+
+		const tiles = new Uint16Array(width * height);
+		for (let i = 0; i < tiles.length; i++) {
+			let band = 0;
+			while (band < palette.length - 1 && heights[i] > palette[band].maxHeight) band++;
+			tiles[i] = band;
+		}
+		const types = palette.map(band => ({...band.type}));
+
+		if (options.connectLand) {
+			const landType = types.findIndex(type => type.conquerable);
+			for (let round = 0; round < MAX_CONNECT_ROUNDS && landType !== -1; round++) {
+				if (!this.connectLand(tiles, types.map(type => type.conquerable), width, symmetry, landType)) break;
+			}
+		}
+		return {width, height, tiles, types};
+	}
+
+	/**
+	 * @param options options to check
+	 * @param palette resolved palette
+	 * @param octaves resolved number of octaves
+	 * @param scale resolved scale
+	 * @throws CodecException if an option is invalid
+	 * @private
+	 */
+	private static checkOptions(options: GenerateOptions, palette: TerrainBand[], octaves: number, scale: number) {
+		if (![options.width, options.height].every(value => Number.isInteger(value) && value >= 1 && value <= 65535)) {
+			throw new CodecException(`Map dimensions must be integers between 1 and 65535, got ${options.width}x${options.height}`);
+		}
+		if (!Number.isInteger(options.seed)) {
+			throw new CodecException(`Seed must be an integer, got ${options.seed}`);
+		}
+		if (!Number.isInteger(octaves) || octaves < 1 || octaves > 16) {
+			throw new CodecException(`Octaves must be an integer between 1 and 16, got ${octaves}`);
+		}
+		if (!(scale > 0) || !Number.isFinite(scale)) {
+			throw new CodecException(`Scale must be a positive number, got ${scale}`);
+		}
+		if (!["none", "horizontal", "vertical", "rotational"].includes(options.symmetry ?? "none")) {
+			throw new CodecException(`Unknown symmetry: ${options.symmetry}`);
+		}
+		if (palette.length === 0 || palette.length > 65535) {
+			throw new CodecException(`The palette needs between 1 and 65535 bands, got ${palette.length}`);
+		}
+		for (let i = 1; i < palette.length; i++) {
+			if (!(palette[i].maxHeight > palette[i - 1].maxHeight)) {
+				throw new CodecException(`Palette heights must be ascending, band ${i} ends at ${palette[i].maxHeight} after ${palette[i - 1].maxHeight}`);
+			}
+		}
+	}
+
+	/**
+	 * Sums octaves of value noise, each with twice the frequency and half the amplitude of the previous one
+	 * @param width map width
+	 * @param height map height
+	 * @param seed generator seed
+	 * @param octaves number of octaves
+	 * @param scale size of the largest features in tiles
+	 * @returns heights normalized to 0-1
+	 * @private
+	 */
+	private createHeightmap(width: number, height: number, seed: number, octaves: number, scale: number): Float64Array {
+		const random = new Random(seed);
+		const heights = new Float64Array(width * height);
+		let frequency = 1 / scale;
+		let amplitude = 1;
+		for (let octave = 0; octave < octaves; octave++) {
+			const octaveSeed = random.nextInt();
+			const offsetX = random.nextInt() & 0xffff;
+			const offsetY = random.nextInt() & 0xffff;
+			for (let y = 0; y < height; y++) {
+				const fy = (y + 0.5) * frequency;
+				const iy = Math.floor(fy);
+				const ty = MapGenerator.fade(fy - iy);
+				for (let x = 0; x < width; x++) {
+					const fx = (x + 0.5) * frequency;
+					const ix = Math.floor(fx);
+					const tx = MapGenerator.fade(fx - ix);
+					const top = MapGenerator.lerp(MapGenerator.lattice(octaveSeed, ix + offsetX, iy + offsetY), MapGenerator.lattice(octaveSeed, ix + offsetX + 1, iy + offsetY), tx);
+					const bottom = MapGenerator.lerp(MapGenerator.lattice(octaveSeed, ix + offsetX, iy + offsetY + 1), MapGenerator.lattice(octaveSeed, ix + offsetX + 1, iy + offsetY + 1), tx);
+					heights[y * width + x] += MapGenerator.lerp(top, bottom, ty) * amplitude;
+				}
+			}
+			frequency *= 2;
+			amplitude /= 2;
+		}
+
+		let min = Infinity;
+		let max = -Infinity;
+		for (const value of heights) {
+			if (value < min) min = value;
+			if (value > max) max = value;
+		}
+		const range = max - min || 1;
+		for (let i = 0; i < heights.length; i++) {
+			heights[i] = (heights[i] - min) / range;
+		}
+		return heights;
+	}
+
+	/**
+	 * Copies the first half of the heightmap onto the second half
+	 * @param heights heights to change in place
+	 * @param width map width
+	 * @param symmetry kind of symmetry
+	 * @private
+	 */
+	private applySymmetry(heights: Float64Array, width: number, symmetry: GenerateOptions["symmetry"]) {
+		if (symmetry === "none") return;
+		for (let i = 0; i < heights.length; i++) {
+			const counterpart = MapGenerator.counterpart(i, width, heights.length, symmetry);
+			if (counterpart < i) heights[i] = heights[counterpart];
+		}
+	}
+
+	/**
+	 * Connects every landmass to the largest one with a path of the lowest land type
+	 *
+	 * Paths follow the shortest route over other tiles and are mirrored like the map.
+	 *
+	 * @param tiles tiles to change in place
+	 * @param land whether each type is land
+	 * @param width map width
+	 * @param symmetry kind of symmetry, paths are mirrored accordingly
+	 * @param landType type of the path tiles
+	 * @returns whether any path was added
+	 * @private
+	 */
+	private connectLand(tiles: Uint16Array, land: boolean[], width: number, symmetry: GenerateOptions["symmetry"], landType: number): boolean {
+		const height = tiles.length / width;
+		const classes = new Uint16Array(tiles.length);
+		for (let i = 0; i < tiles.length; i++) {
+			classes[i] = land[tiles[i]] ? 1 : 0;
+		}
+		const {zones, zoneMap} = ZoneCalculator.buildZones({width, height, tiles: classes});
+		const sizes = new Uint32Array(zones.length + 1);
+		for (let i = 0; i < tiles.length; i++) {
+			if (classes[i]) sizes[zoneMap[i]]++;
+		}
+		let main = 0;
+		let landmasses = 0;
+		for (let zoneId = 1; zoneId <= zones.length; zoneId++) {
+			if (!sizes[zoneId]) continue;
+			landmasses++;
+			if (sizes[zoneId] > sizes[main]) main = zoneId;
+		}
+		if (landmasses <= 1) return false;
+
+		//breadth-first search from the main landmass, every other landmass is connected by its closest tile
+		const parent = new Int32Array(tiles.length).fill(-2);
+		const queue: number[] = [];
+		for (let i = 0; i < tiles.length; i++) {
+			if (zoneMap[i] === main) {
+				parent[i] = -1;
+				queue.push(i);
+			}
+		}
+		const connected = new Uint8Array(zones.length + 1);
+		connected[main] = 1;
+		for (let head = 0; head < queue.length; head++) {
+			const tile = queue[head];
+			const x = tile % width;
+			for (const neighbour of [x > 0 ? tile - 1 : -1, x < width - 1 ? tile + 1 : -1, tile - width, tile + width]) {
+				if (neighbour < 0 || neighbour >= tiles.length || parent[neighbour] !== -2) continue;
+				parent[neighbour] = tile;
+				if (classes[neighbour] && !connected[zoneMap[neighbour]]) {
+					connected[zoneMap[neighbour]] = 1;
+					for (let current = tile; parent[current] !== -1; current = parent[current]) {
+						if (!classes[current]) {
+							tiles[current] = landType;
+							tiles[MapGenerator.counterpart(current, width, tiles.length, symmetry)] = landType;
+						}
+					}
+				}
+				queue.push(neighbour);
+			}
+		}
+		return true;
+	}
+
+	/**
+	 * @param tile tile index
+	 * @param width map width
+	 * @param size number of tiles
+	 * @param symmetry kind of symmetry
+	 * @returns index of the mirrored tile, the tile itself without symmetry
+	 * @private
+	 */
+	private static counterpart(tile: number, width: number, size: number, symmetry: GenerateOptions["symmetry"]): number {
+		const x = tile % width;
+		switch (symmetry) {
+			case "horizontal":
+				return tile - x + width - 1 - x;
+			case "vertical":
+				return size - width - (tile - x) + x;
+			case "rotational":
+				return size - 1 - tile;
+			default:
+				return tile;
+		}
+	}
+
+	/**
+	 * Hashes a lattice point to a value in [0, 1) using only 32-bit integer operations
+	 * @param seed octave seed
+	 * @param x lattice x
+	 * @param y lattice y
+	 * @returns lattice value
+	 * @private
+	 */
+	private static lattice(seed: number, x: number, y: number): number {
+		let hash = seed ^ Math.imul(x, 0x27d4eb2d) ^ Math.imul(y, 0x165667b1);
+		hash = Math.imul(hash ^ (hash >>> 15), 0x85ebca6b);
+		hash = Math.imul(hash ^ (hash >>> 13), 0xc2b2ae35);
+		return ((hash ^ (hash >>> 16)) >>> 0) / 4294967296;
+	}
+
+	/**
+	 * @param t position between two lattice points, 0-1
+	 * @returns smoothed position, avoids visible lattice edges
+	 * @private
+	 */
+	private static fade(t: number): number {
+		return t * t * (3 - 2 * t);
+	}
+
+	/**
+	 * @param a value at 0
+	 * @param b value at 1
+	 * @param t position, 0-1
+	 * @returns interpolated value
+	 * @private
+	 */
+	private static lerp(a: number, b: number, t: number): number {
+		return a + (b - a) * t;
+	}
+}
+
+export const mapGenerator = new MapGenerator();
\ No newline at end of file
@@ -0,0 +1,196 @@
+import type {RawMapData, SimplifyOptions} from "../MapCodec";
+import {ZoneCalculator} from "./util/ZoneCalculator";
+import {CodecException, TypeIndexException} from "./util/CodecException";
+
+/** Zones can be absorbed into zones that are absorbed themselves, this bounds the repetitions */
+const MAX_ABSORB_ROUNDS = 16;
+
+class MapSimplifier {
+	/**
+	 * Removes speckle and smooths borders, so the map needs fewer zones and lines
+	 *
+	 * Smoothing runs first, then zones below the minimum area are absorbed until none are left or
+	 * none can be absorbed. Tiles of locked types and tiles holding a spawn are never changed, and
+	 * no tile is changed into a locked type, so thin features like rivers keep their exact shape.
+	 *
+	 * @param data map to simplify, it is not modified
+	 * @param options simplification controls
+	 * @returns simplified map and the number of changed tiles
+	 * @throws TypeIndexException if a locked type doesn't exist
+	 * @throws CodecException if an option is invalid
+	 */
+	simplify(data: RawMapData, options: SimplifyOptions): {data: RawMapData, changedTiles: number} {
+		const minZoneArea = options.minZoneArea ?? 1;
+		const smoothingPasses = options.smoothingPasses ?? 0;
+		if (!Number.isInteger(minZoneArea) || minZoneArea < 1) {
+			throw new CodecException(`Minimum zone area must be a positive integer, got ${minZoneArea}`);
+		}
+		if (!Number.isInteger(smoothingPasses) || smoothingPasses < 0) {
+			throw new CodecException(`Smoothing passes must be a non-negative integer, got ${smoothingPasses}`);
+		}
+
+		const lockedTypes = new Uint8Array(data.types.length);
+		for (const type of options.lockedTypes ?? []) {
+			if (!Number.isInteger(type) || type < 0 || type >= data.types.length) {
+				throw new TypeIndexException(`Locked type ${type} does not exist, the map has ${data.types.length} types`);
+			}
+			lockedTypes[type] = 1;
+		}
+		const locked = new Uint8Array(data.tiles.length);
+		for (let i = 0; i < data.tiles.length; i++) {
+			locked[i] = lockedTypes[data.tiles[i]];
+		}
+		for (const spawn of data.spawns ?? []) {
+			locked[spawn.y * data.width + spawn.x] = 1;
+		}
+
+		let tiles: Uint16Array = data.tiles.slice();
+		for (let pass = 0; pass < smoothingPasses; pass++) {
+			const smoothed = this.smooth(tiles, data.width, locked, lockedTypes);
+			if (!smoothed) break;
+			tiles = smoothed;
+		}
+		if (minZoneArea > 1) {
+			for (let round = 0; round < MAX_ABSORB_ROUNDS; round++) {
+				if (!this.absorbZones(tiles, data.width, data.height, minZoneArea, locked, lockedTypes)) break;
+			}
+		}
+
+		let changedTiles = 0;
+		for (let i = 0; i < tiles.length; i++) {
+			if (tiles[i] !== data.tiles[i]) changedTiles++;
+		}
+		return {data: {...data, tiles}, changedTiles};
+	}
+
+	/**
+	 * Runs one smoothing pass, a tile takes the type held by at least 5 of its 8 neighbours
+	 * @param tiles current tiles
+	 * @param width map width
+	 * @param locked whether each tile must keep its type
+	 * @param lockedTypes whether each type is locked
+	 * @returns smoothed tiles, null if nothing changed
+	 * @private
+	 */
+	private smooth(tiles: Uint16Array, width: number, locked: Uint8Array, lockedTypes: Uint8Array): Uint16Array | null {
+		const result = tiles.slice();
+		const height = tiles.length / width;
+		const counts = new Uint8Array(lockedTypes.length);
+		const neighbours: number[] = [];
+		let changed = false;
+		for (let y = 0; y < height; y++) {
+			for (let x = 0; x < width; x++) {
+				const i = y * width + x;
+				if (locked[i]) continue;
+				neighbours.length = 0;
+				for (let ny = Math.max(0, y - 1); ny <= Math.min(height - 1, y + 1); ny++) {
+					for (let nx = Math.max(0, x - 1); nx <= Math.min(width - 1, x + 1); nx++) {
+						if (nx !== x || ny !== y) neighbours.push(tiles[ny * width + nx]);
+					}
+				}
+				let majority = -1;
+				for (const type of neighbours) {
+					if (++counts[type] >= 5 && !lockedTypes[type]) majority = type;
+				}
+				for (const type of neighbours) {
+					counts[type] = 0;
+				}
+				if (majority !== -1 && majority !== tiles[i]) {
+					result[i] = majority;
+					changed = true;
+				}
+			}
+		}
+		return changed ? result : null;
+	}
+
+	/**
+	 * Absorbs zones below the minimum area into the neighbouring type they share the longest border with
+	 *
+	 * Zones are processed from smallest to largest and see the changes of earlier zones.
+	 *
+	 * @param tiles tiles to change in place
+	 * @param width map width
+	 * @param height map height
+	 * @param minZoneArea minimum number of tiles per zone
+	 * @param locked whether each tile must keep its type
+	 * @param lockedTypes whether each type is locked
+	 * @returns whether any zone was absorbed
+	 * @private
+	 */
+	private absorbZones(tiles: Uint16Array, width: number, height: number, minZoneArea: number, locked: Uint8Array, lockedTypes: Uint8Array): boolean {
+		const {zones, zoneMap} = ZoneCalculator.buildZones({width, height, tiles});
+
+		//tiles of each zone, grouped by zone
+		const offsets = new Int32Array(zones.length + 2);
+		for (let i = 0; i < tiles.length; i++) {
+			offsets[zoneMap[i] + 1]++;
+		}
+		for (let i = 0; i <= zones.length; i++) {
+			offsets[i + 1] += offsets[i];
+		}
+		const zoneTiles = new Int32Array(tiles.length);
+		const next = offsets.slice(0, zones.length + 1);
+		for (let i = 0; i < tiles.length; i++) {
+			zoneTiles[next[zoneMap[i]]++] = i;
+		}
+
+		const small: number[] = [];
+		for (let zoneId = 1; zoneId <= zones.length; zoneId++) {
+			if (offsets[zoneId + 1] - offsets[zoneId] < minZoneArea) small.push(zoneId);
+		}
+		small.sort((a, b) => (offsets[a + 1] - offsets[a]) - (offsets[b + 1] - offsets[b]));
+
+		const contacts = new Uint32Array(lockedTypes.length);
+		const touched: number[] = [];
+		let absorbed = false;
+		for (const zoneId of small) {
+			const type = tiles[zoneTiles[offsets[zoneId]]];
+			if (lockedTypes[type]) continue;
+			let isLocked = false;
+			for (let j = offsets[zoneId]; j < offsets[zoneId + 1]; j++) {
+				const tile = zoneTiles[j];
+				if (locked[tile]) isLocked = true;
+				const x = tile % width;
+				if (x > 0) this.addContact(tiles[tile - 1], type, contacts, touched);
+				if (x < width - 1) this.addContact(tiles[tile + 1], type, contacts, touched);
+				if (tile >= width) this.addContact(tiles[tile - width], type, contacts, touched);
+				if (tile < tiles.length - width) this.addContact(tiles[tile + width], type, contacts, touched);
+			}
+
+			let dominant = -1;
+			for (const neighbour of touched) {
+				if (lockedTypes[neighbour]) continue;
+				if (dominant === -1 || contacts[neighbour] > contacts[dominant] || contacts[neighbour] === contacts[dominant] && neighbour < dominant) {
+					dominant = neighbour;
+				}
+			}
+			for (const neighbour of touched) {
+				contacts[neighbour] = 0;
+			}
+			touched.length = 0;
+
+			if (isLocked || dominant === -1) continue;
+			for (let j = offsets[zoneId]; j < offsets[zoneId + 1]; j++) {
+				tiles[zoneTiles[j]] = dominant;
+			}
+			absorbed = true;
+		}
+		return absorbed;
+	}
+
+	/**
+	 * Counts a border tile of a neighbouring zone
+	 * @param neighbour type of the neighbouring tile
+	 * @param type type of the zone
+	 * @param contacts border length per type
+	 * @param touched types with a non-zero border length
+	 * @private
+	 */
+	private addContact(neighbour: number, type: number, contacts: Uint32Array, touched: number[]) {
+		if (neighbour === type) return;
+		if (contacts[neighbour]++ === 0) touched.push(neighbour);
+	}
+}
+
+export const mapSimplifier = new MapSimplifier();
\ No newline at end of file
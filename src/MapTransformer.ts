@@ -0,0 +1,396 @@
+import type {MapPoint, MapRegion, MapSides, RawMapData, TileLayer, TileType} from "../MapCodec";
+import {CodecException, TypeIndexException} from "./util/CodecException";
+
+const MAX_DIMENSION = 65535;
+
+class MapTransformer {
+	/**
+	 * Cuts a rectangle out of a map
+	 * @param data map to crop, it is not modified
+	 * @param x left edge of the rectangle
+	 * @param y top edge of the rectangle
+	 * @param width width of the rectangle
+	 * @param height height of the rectangle
+	 * @returns map data of the rectangle
+	 * @throws CodecException if the rectangle is not inside the map
+	 */
+	crop(data: RawMapData, x: number, y: number, width: number, height: number): RawMapData {
+		if (![x, y, width, height].every(Number.isInteger) || x < 0 || y < 0 || width < 1 || height < 1 || x + width > data.width || y + height > data.height) {
+			throw new CodecException(`Rectangle ${x}, ${y}, ${width}x${height} is not inside the ${data.width}x${data.height} map`);
+		}
+		return this.transform(data, this.offset(data, width, height, -x, -y), 0);
+	}
+
+	/**
+	 * Adds tiles around a map
+	 * @param data map to pad, it is not modified
+	 * @param sides number of tiles to add on each side
+	 * @param fillType type of the new tiles
+	 * @returns padded map data, tile layers are 0 on the new tiles
+	 * @throws TypeIndexException if the fill type doesn't exist
+	 * @throws CodecException if a side is negative or the result exceeds 65535 tiles in either direction
+	 */
+	pad(data: RawMapData, sides: MapSides, fillType: number): RawMapData {
+		const {left = 0, top = 0, right = 0, bottom = 0} = sides;
+		if (![left, top, right, bottom].every(side => Number.isInteger(side) && side >= 0)) {
+			throw new CodecException(`Padding must be made of non-negative integers, got ${JSON.stringify(sides)}`);
+		}
+		if (!Number.isInteger(fillType) || fillType < 0 || fillType >= data.types.length) {
+			throw new TypeIndexException(`Fill type ${fillType} does not exist, the map has ${data.types.length} types`);
+		}
+		return this.transform(data, this.offset(data, data.width + left + right, data.height + top + bottom, left, top), fillType);
+	}
+
+	/**
+	 * Scales a map with nearest-neighbour sampling, each new tile takes the type of the old tile at its center
+	 *
+	 * When shrinking, points move to the tile covering them and may end up on a different type.
+	 * Spawns that end up on a tile that isn't conquerable are removed, as are duplicated points.
+	 *
+	 * @param data map to resize, it is not modified
+	 * @param width new width
+	 * @param height new height
+	 * @returns resized map data
+	 * @throws CodecException if the new dimensions are not between 1 and 65535
+	 */
+	resize(data: RawMapData, width: number, height: number): RawMapData {
+		MapTransformer.checkDimensions(width, height);
+		const source = new Int32Array(width * height);
+		for (let y = 0; y < height; y++) {
+			const sourceRow = Math.floor((y + 0.5) * data.height / height) * data.width;
+			for (let x = 0; x < width; x++) {
+				source[y * width + x] = sourceRow + Math.floor((x + 0.5) * data.width / width);
+			}
+		}
+		return this.transform(data, {
+			width, height, source,
+			point: (x, y) => ({x: Math.min(width - 1, Math.floor((x + 0.5) * width / data.width)), y: Math.min(height - 1, Math.floor((y + 0.5) * height / data.height))})
+		}, 0);
+	}
+
+	/**
+	 * Rotates a map clockwise in steps of 90°
+	 * @param data map to rotate, it is not modified
+	 * @param quarterTurns number of clockwise quarter turns, negative values turn counterclockwise
+	 * @returns rotated map data
+	 * @throws CodecException if the number of turns is not an integer
+	 */
+	rotate(data: RawMapData, quarterTurns: number): RawMapData {
+		if (!Number.isInteger(quarterTurns)) {
+			throw new CodecException(`Rotation must be a whole number of quarter turns, got ${quarterTurns}`);
+		}
+		const turns = (quarterTurns % 4 + 4) % 4;
+		const {width: w, height: h} = data;
+		const position = [
+			(x: number, y: number) => ({x, y}),
+			(x: number, y: number) => ({x: h - 1 - y, y: x}),
+			(x: number, y: number) => ({x: w - 1 - x, y: h - 1 - y}),
+			(x: number, y: number) => ({x: y, y: w - 1 - x})
+		][turns];
+		const width = turns % 2 ? h : w;
+		const height = turns % 2 ? w : h;
+		return this.transform(data, this.forward(data, width, height, position), 0);
+	}
+
+	/**
+	 * Mirrors a map
+	 * @param data map to mirror, it is not modified
+	 * @param direction horizontal swaps left and right, vertical swaps top and bottom
+	 * @returns mirrored map data
+	 * @throws CodecException if the direction is unknown
+	 */
+	mirror(data: RawMapData, direction: "horizontal" | "vertical"): RawMapData {
+		if (direction !== "horizontal" && direction !== "vertical") {
+			throw new CodecException(`Unknown mirror direction: ${direction}`);
+		}
+		const {width, height} = data;
+		const position = direction === "horizontal"
+			? (x: number, y: number) => ({x: width - 1 - x, y})
+			: (x: number, y: number) => ({x, y: height - 1 - y});
+		return this.transform(data, this.forward(data, width, height, position), 0);
+	}
+
+	/**
+	 * Places two maps next to each other
+	 *
+	 * Types of the second map that equal a type of the first map in every field, including attributes,
+	 * are merged into it, the others are appended. Metadata and extensions of the first map are kept,
+	 * tile layers are joined by name and are 0 where a map doesn't have the layer.
+	 *
+	 * @param first left or top map, it is not modified
+	 * @param second right or bottom map, it is not modified
+	 * @param direction horizontal places the second map to the right, vertical below the first one
+	 * @returns stitched map data
+	 * @throws CodecException if the touching edges differ in length, the result exceeds 65535 tiles in
+	 * either direction or the merged types exceed 65535
+	 */
+	stitch(first: RawMapData, second: RawMapData, direction: "horizontal" | "vertical"): RawMapData {
+		if (direction !== "horizontal" && direction !== "vertical") {
+			throw new CodecException(`Unknown stitch direction: ${direction}`);
+		}
+		const horizontal = direction === "horizontal";
+		if (horizontal ? first.height !== second.height : first.width !== second.width) {
+			throw new CodecException(`Can't stitch a ${first.width}x${first.height} and a ${second.width}x${second.height} map ${direction}ly, the touching edges differ in length`);
+		}
+		const width = horizontal ? first.width + second.width : first.width;
+		const height = horizontal ? first.height : first.height + second.height;
+		const dx = horizontal ? first.width : 0;
+		const dy = horizontal ? 0 : first.height;
+
+		const {types, remap} = this.mergeTypes(first.types, second.types);
+		const tiles = new Uint16Array(second.tiles.length);
+		for (let i = 0; i < tiles.length; i++) {
+			tiles[i] = remap[second.tiles[i]];
+		}
+		const a = this.transform({...first, types}, this.offset(first, width, height, 0, 0), 0);
+		const b = this.transform({...second, tiles, types}, this.offset(second, width, height, dx, dy), 0);
+
+		this.overlay(a.tiles, b.tiles, width, dx, dy, second.width, second.height);
+		for (const key of ["spawns", "capitals", "regions"] as const) {
+			const items = [...a[key] ?? [], ...b[key] ?? []];
+			if (items.length > 0) Object.assign(a, {[key]: items});
+		}
+		const names = [...new Set([...Object.keys(a.tileLayers ?? {}), ...Object.keys(b.tileLayers ?? {})])];
+		if (names.length > 0) {
+			const tileLayers: {[name: string]: TileLayer} = {};
+			for (const name of names) {
+				const layerA = a.tileLayers?.[name];
+				const layerB = b.tileLayers?.[name];
+				const values = layerA?.values ?? new Uint16Array(width * height);
+				if (layerB) this.overlay(values, layerB.values, width, dx, dy, second.width, second.height);
+				tileLayers[name] = {bits: Math.max(layerA?.bits ?? 1, layerB?.bits ?? 1), values};
+				const encoding = layerA?.encoding ?? layerB?.encoding;
+				if (encoding) tileLayers[name].encoding = encoding;
+			}
+			a.tileLayers = tileLayers;
+		}
+		return a;
+	}
+
+	/**
+	 * Builds the mapping of a translation, tiles moved outside the new dimensions are dropped
+	 * @param data map to translate
+	 * @param width new width
+	 * @param height new height
+	 * @param dx horizontal offset of the old tiles
+	 * @param dy vertical offset of the old tiles
+	 * @returns tile mapping
+	 * @throws CodecException if the new dimensions are not between 1 and 65535
+	 * @private
+	 */
+	private offset(data: RawMapData, width: number, height: number, dx: number, dy: number): TileMapping {
+		MapTransformer.checkDimensions(width, height);
+		const source = new Int32Array(width * height).fill(-1);
+		for (let y = Math.max(0, dy); y < Math.min(height, data.height + dy); y++) {
+			for (let x = Math.max(0, dx); x < Math.min(width, data.width + dx); x++) {
+				source[y * width + x] = (y - dy) * data.width + x - dx;
+			}
+		}
+		return {width, height, source, point: (x, y) => ({x: x + dx, y: y + dy})};
+	}
+
+	/**
+	 * Builds the mapping of a transform that moves every tile to exactly one new position
+	 * @param data map to transform
+	 * @param width new width
+	 * @param height new height
+	 * @param position new position of an old tile
+	 * @returns tile mapping
+	 * @private
+	 */
+	private forward(data: RawMapData, width: number, height: number, position: (x: number, y: number) => MapPoint): TileMapping {
+		const source = new Int32Array(width * height);
+		for (let y = 0; y < data.height; y++) {
+			for (let x = 0; x < data.width; x++) {
+				const target = position(x, y);
+				source[target.y * width + target.x] = y * data.width + x;
+			}
+		}
+		return {width, height, source, point: position};
+	}
+
+	/**
+	 * Applies a tile mapping to tiles, points, regions and tile layers
+	 *
+	 * Points and regions outside the new map are removed, extensions are copied unchanged since their
+	 * content is unknown.
+	 *
+	 * @param data map to transform
+	 * @param mapping tile mapping to apply
+	 * @param fillType type of tiles without a source tile
+	 * @returns transformed map data
+	 * @private
+	 */
+	private transform(data: RawMapData, mapping: TileMapping, fillType: number): RawMapData {
+		const result: RawMapData = {
+			width: mapping.width,
+			height: mapping.height,
+			tiles: this.remapValues(data.tiles, mapping.source, fillType),
+			types: data.types.map(type => type.attributes ? {...type, attributes: {...type.attributes}} : {...type})
+		};
+		if (data.metadata) result.metadata = {...data.metadata};
+		if (data.spawns) result.spawns = this.mapPoints(data.spawns, mapping, result);
+		if (data.capitals) result.capitals = this.mapPoints(data.capitals, mapping, null);
+		if (data.regions) result.regions = this.mapRegions(data.regions, mapping, data.tiles.length);
+		if (data.tileLayers) {
+			result.tileLayers = {};
+			for (const [name, layer] of Object.entries(data.tileLayers)) {
+				result.tileLayers[name] = {...layer, values: this.remapValues(layer.values, mapping.source, 0)};
+			}
+		}
+		if (data.extensions) result.extensions = {...data.extensions};
+		return result;
+	}
+
+	/**
+	 * @param values values of the old tiles
+	 * @param source old tile of each new tile, -1 for new tiles
+	 * @param fill value of new tiles
+	 * @returns values of the new tiles
+	 * @private
+	 */
+	private remapValues(values: Uint16Array, source: Int32Array, fill: number): Uint16Array {
+		const result = new Uint16Array(source.length);
+		for (let i = 0; i < source.length; i++) {
+			result[i] = source[i] === -1 ? fill : values[source[i]];
+		}
+		return result;
+	}
+
+	/**
+	 * Moves points, dropping those that leave the map, duplicates and spawns that end up on a tile that isn't conquerable
+	 * @param points points to move
+	 * @param mapping tile mapping
+	 * @param spawnMap transformed map to check spawns against, null for other points
+	 * @returns moved points
+	 * @private
+	 */
+	private mapPoints(points: MapPoint[], mapping: TileMapping, spawnMap: RawMapData | null): MapPoint[] {
+		const result: MapPoint[] = [];
+		const seen = new Set<number>();
+		for (const point of points) {
+			const {x, y} = mapping.point(point.x, point.y);
+			if (x < 0 || y < 0 || x >= mapping.width || y >= mapping.height) continue;
+			const tile = y * mapping.width + x;
+			if (seen.has(tile)) continue;
+			if (spawnMap && spawnMap.types[spawnMap.tiles[tile]]?.conquerable === false) continue;
+			seen.add(tile);
+			result.push({x, y});
+		}
+		return result;
+	}
+
+	/**
+	 * Moves regions, a new tile belongs to a region if its source tile does. Empty regions are kept
+	 * @param regions regions to move
+	 * @param mapping tile mapping
+	 * @param sourceSize number of tiles in the old map
+	 * @returns moved regions with sorted tiles
+	 * @private
+	 */
+	private mapRegions(regions: MapRegion[], mapping: TileMapping, sourceSize: number): MapRegion[] {
+		//new tiles of each old tile, grouped by old tile
+		const offsets = new Int32Array(sourceSize + 1);
+		for (let i = 0; i < mapping.source.length; i++) {
+			if (mapping.source[i] !== -1) offsets[mapping.source[i] + 1]++;
+		}
+		for (let i = 0; i < sourceSize; i++) {
+			offsets[i + 1] += offsets[i];
+		}
+		const targets = new Int32Array(offsets[sourceSize]);
+		const next = offsets.slice(0, sourceSize);
+		for (let i = 0; i < mapping.source.length; i++) {
+			if (mapping.source[i] !== -1) targets[next[mapping.source[i]]++] = i;
+		}
+
+		return regions.map(region => {
+			const tiles: number[] = [];
+			for (const tile of new Set(region.tiles)) {
+				for (let i = offsets[tile]; i < offsets[tile + 1]; i++) {
+					tiles.push(targets[i]);
+				}
+			}
+			return {name: region.name, tiles: tiles.sort((a, b) => a - b)};
+		});
+	}
+
+	/**
+	 * Merges the types of two maps, types of the second map equal to one of the first map are reused
+	 * @param first types of the first map, their indices stay the same
+	 * @param second types of the second map
+	 * @returns merged types and the new index of each type of the second map
+	 * @throws CodecException if the merged types exceed 65535
+	 * @private
+	 */
+	private mergeTypes(first: TileType[], second: TileType[]): {types: TileType[], remap: Uint16Array} {
+		const types = [...first];
+		const remap = new Uint16Array(second.length);
+		second.forEach((type, i) => {
+			let index = types.findIndex(other => MapTransformer.equalTypes(type, other));
+			if (index === -1) {
+				index = types.push(type) - 1;
+			}
+			remap[i] = index;
+		});
+		if (types.length > 65535) {
+			throw new CodecException(`Stitched map would have ${types.length} tile types, at most 65535 are allowed`);
+		}
+		return {types, remap};
+	}
+
+	/**
+	 * @param a first type
+	 * @param b second type
+	 * @returns whether both types have the same fields and attributes
+	 * @private
+	 */
+	private static equalTypes(a: TileType, b: TileType): boolean {
+		const keys: (keyof TileType)[] = ["name", "colorBase", "colorVariant", "conquerable", "navigable", "expansionTime", "expansionCost"];
+		if (keys.some(key => a[key] !== b[key])) return false;
+		const attributesA = a.attributes ?? {};
+		const attributesB = b.attributes ?? {};
+		const names = Object.keys(attributesA);
+		return names.length === Object.keys(attributesB).length && names.every(name => attributesA[name] === attributesB[name]);
+	}
+
+	/**
+	 * Copies a rectangle of values from one full-size array into another
+	 * @param target values to copy into
+	 * @param values values to copy from, same dimensions as the target
+	 * @param width width of both arrays
+	 * @param dx left edge of the rectangle
+	 * @param dy top edge of the rectangle
+	 * @param rectWidth width of the rectangle
+	 * @param rectHeight height of the rectangle
+	 * @private
+	 */
+	private overlay(target: Uint16Array, values: Uint16Array, width: number, dx: number, dy: number, rectWidth: number, rectHeight: number) {
+		for (let y = dy; y < dy + rectHeight; y++) {
+			const start = y * width + dx;
+			target.set(values.subarray(start, start + rectWidth), start);
+		}
+	}
+
+	/**
+	 * @param width width to check
+	 * @param height height to check
+	 * @throws CodecException if a dimension is not an integer between 1 and 65535
+	 * @private
+	 */
+	private static checkDimensions(width: number, height: number) {
+		if (![width, height].every(value => Number.isInteger(value) && value >= 1 && value <= MAX_DIMENSION)) {
+			throw new CodecException(`Map dimensions must be integers between 1 and ${MAX_DIMENSION}, got ${width}x${height}`);
+		}
+	}
+}
+
+type TileMapping = {
+	width: number;
+	height: number;
+	/** Old tile index of each new tile, -1 for tiles that didn't exist before */
+	source: Int32Array;
+	/** New position of an old point, may be outside the new map */
+	point: (x: number, y: number) => MapPoint;
+}
+
+export const mapTransformer = new MapTransformer();
\ No newline at end of file
@@ -0,0 +1,274 @@
+import type {MapPoint, RawMapData, TileType, ValidationIssue} from "../MapCodec";
+import {extensionRegistry} from "./ExtensionRegistry";
+import {ATTRIBUTE_CHUNK, fromFloat16, tileAttributeRegistry, toFloat16} from "./TileAttributes";
+
+class MapValidator {
+	/**
+	 * Checks map data for everything that would prevent a lossless encoding
+	 * @param data map data to check
+	 * @returns all found problems, empty if the map is valid
+	 */
+	validate(data: RawMapData): ValidationIssue[] {
+		const issues: ValidationIssue[] = [];
+		this.validateDimensions(issues, data);
+		this.validateTiles(issues, data);
+		for (let i = 0; i < data.types.length; i++) {
+			this.validateType(issues, data.types[i], `types[${i}]`);
+		}
+		this.validateMetadata(issues, data);
+		this.validatePoints(issues, data, data.spawns ?? [], "spawns");
+		this.validatePoints(issues, data, data.capitals ?? [], "capitals");
+		this.validateRegions(issues, data);
+		this.validateTileLayers(issues, data);
+		for (const name of Object.keys(data.extensions ?? {})) {
+			if (name === ATTRIBUTE_CHUNK) {
+				issues.push(this.error("reserved-extension", `extensions.${name}`, `Extension ${name} is reserved, use TileType.attributes instead`));
+			} else if (!extensionRegistry.has(name)) {
+				issues.push(this.error("unknown-extension", `extensions.${name}`, `Extension ${name} is not registered`));
+			}
+		}
+		return issues;
+	}
+
+	/**
+	 * @param issues list to add problems to
+	 * @param data map data to check
+	 * @private
+	 */
+	private validateDimensions(issues: ValidationIssue[], data: RawMapData) {
+		for (const key of ["width", "height"] as const) {
+			if (!Number.isInteger(data[key]) || data[key] < 1 || data[key] > 65535) {
+				issues.push(this.error("dimension-out-of-range", key, `Map ${key} must be between 1 and 65535, got ${data[key]}`));
+			}
+		}
+		if (data.tiles.length !== data.width * data.height) {
+			issues.push(this.error("tile-count-mismatch", "tiles", `Expected ${data.width * data.height} tiles for a ${data.width}x${data.height} map, got ${data.tiles.length}`));
+		}
+	}
+
+	/**
+	 * Checks that every tile references a known type, unused types are reported as warnings
+	 * @param issues list to add problems to
+	 * @param data map data to check
+	 * @private
+	 */
+	private validateTiles(issues: ValidationIssue[], data: RawMapData) {
+		if (data.types.length === 0) {
+			issues.push(this.error("no-types", "types", "At least one tile type is required"));
+		}
+		if (data.types.length > 65535) {
+			issues.push(this.error("too-many-types", "types", `At most 65535 tile types are allowed, got ${data.types.length}`));
+		}
+
+		const usage = new Uint32Array(65536);
+		for (let i = 0; i < data.tiles.length; i++) {
+			usage[data.tiles[i]]++;
+		}
+		for (let i = 0; i < usage.length; i++) {
+			if (i >= data.types.length && usage[i] > 0) {
+				issues.push(this.error("unknown-type", "tiles", `Unknown tile type: ${i}. Used by ${usage[i]} tiles but not specified in type map`));
+			} else if (i < data.types.length && usage[i] === 0) {
+				issues.push(this.warning("unused-type", `types[${i}]`, `Tile type ${data.types[i].name} is not used by any tile and is left out when encoding`));
+			}
+		}
+	}
+
+	/**
+	 * @param issues list to add problems to
+	 * @param type tile type to check
+	 * @param path path of the type used in issues
+	 * @private
+	 */
+	private validateType(issues: ValidationIssue[], type: TileType, path: string) {
+		this.validateString(issues, type.name, 32, `${path}.name`);
+		this.validateString(issues, type.colorBase, 16, `${path}.colorBase`);
+		this.validateInteger(issues, type.colorVariant, 15, `${path}.colorVariant`);
+		this.validateInteger(issues, type.expansionTime, 255, `${path}.expansionTime`);
+		this.validateInteger(issues, type.expansionCost, 255, `${path}.expansionCost`);
+		for (const key of ["conquerable", "navigable"] as const) {
+			if (typeof type[key] !== "boolean") {
+				issues.push(this.error("invalid-value", `${path}.${key}`, `${key} must be a boolean`));
+			}
+		}
+		this.validateAttributes(issues, type, path);
+	}
+
+	/**
+	 * Checks that attributes are defined and fit their type, float16 values that would be rounded are reported as warnings
+	 * @param issues list to add problems to
+	 * @param type tile type to check
+	 * @param path path of the type
+	 * @private
+	 */
+	private validateAttributes(issues: ValidationIssue[], type: TileType, path: string) {
+		for (const [name, value] of Object.entries(type.attributes ?? {})) {
+			const definition = tileAttributeRegistry.get(name);
+			if (!definition) {
+				issues.push(this.error("unknown-attribute", `${path}.attributes.${name}`, `Tile attribute ${name} is not defined`));
+				continue;
+			}
+			const problem = tileAttributeRegistry.checkValue(definition.type, value);
+			if (problem) {
+				issues.push(this.error("invalid-attribute", `${path}.attributes.${name}`, `${definition.type} attribute ${name} ${problem}`));
+			} else if (definition.type === "float16" && fromFloat16(toFloat16(value as number)) !== value) {
+				issues.push(this.warning("attribute-precision", `${path}.attributes.${name}`, `${value} is stored as ${fromFloat16(toFloat16(value as number))} in the float16 attribute ${name}`));
+			}
+		}
+	}
+
+	/**
+	 * @param issues list to add problems to
+	 * @param data map data to check
+	 * @private
+	 */
+	private validateMetadata(issues: ValidationIssue[], data: RawMapData) {
+		const metadata = data.metadata ?? {};
+		this.validateString(issues, metadata.name, 64, "metadata.name");
+		this.validateString(issues, metadata.author, 32, "metadata.author");
+		this.validateString(issues, metadata.description, 1024, "metadata.description");
+		this.validateString(issues, metadata.editorVersion, 16, "metadata.editorVersion");
+		this.validateInteger(issues, metadata.createdAt, 2 ** 48 - 1, "metadata.createdAt");
+		this.validateInteger(issues, metadata.modifiedAt, 2 ** 48 - 1, "metadata.modifiedAt");
+	}
+
+	/**
+	 * Checks that points lie inside the map, spawns additionally need to be conquerable
+	 * @param issues list to add problems to
+	 * @param data map data to check
+	 * @param points points to check
+	 * @param layer name of the layer
+	 * @private
+	 */
+	private validatePoints(issues: ValidationIssue[], data: RawMapData, points: MapPoint[], layer: "spawns" | "capitals") {
+		if (points.length > 65535) {
+			issues.push(this.error("too-many-points", layer, `At most 65535 ${layer} are allowed, got ${points.length}`));
+		}
+		const seen = new Set<number>();
+		for (let i = 0; i < points.length; i++) {
+			const {x, y} = points[i];
+			const path = `${layer}[${i}]`;
+			if (!Number.isInteger(x) || !Number.isInteger(y) || x < 0 || y < 0 || x >= data.width || y >= data.height) {
+				issues.push(this.error("point-outside-map", path, `Point ${x}, ${y} is outside the map`));
+				continue;
+			}
+			const tile = y * data.width + x;
+			if (layer === "spawns" && data.types[data.tiles[tile]]?.conquerable === false) {
+				issues.push(this.error("spawn-not-conquerable", path, `Spawn at ${x}, ${y} is not on a conquerable tile`));
+			}
+			if (seen.has(tile)) {
+				issues.push(this.warning("duplicate-point", path, `Point ${x}, ${y} is listed multiple times`));
+			}
+			seen.add(tile);
+		}
+	}
+
+	/**
+	 * @param issues list to add problems to
+	 * @param data map data to check
+	 * @private
+	 */
+	private validateRegions(issues: ValidationIssue[], data: RawMapData) {
+		const regions = data.regions ?? [];
+		if (regions.length > 65535) {
+			issues.push(this.error("too-many-regions", "regions", `At most 65535 regions are allowed, got ${regions.length}`));
+		}
+		for (let i = 0; i < regions.length; i++) {
+			this.validateString(issues, regions[i].name, 32, `regions[${i}].name`);
+			if (regions[i].tiles.some(tile => !Number.isInteger(tile) || tile < 0 || tile >= data.tiles.length)) {
+				issues.push(this.error("region-outside-map", `regions[${i}].tiles`, `Region ${regions[i].name} contains tiles outside the map`));
+			}
+		}
+	}
+
+	/**
+	 * @param issues list to add problems to
+	 * @param data map data to check
+	 * @private
+	 */
+	private validateTileLayers(issues: ValidationIssue[], data: RawMapData) {
+		const entries = Object.entries(data.tileLayers ?? {});
+		if (entries.length > 255) {
+			issues.push(this.error("too-many-tile-layers", "tileLayers", `At most 255 tile layers are allowed, got ${entries.length}`));
+		}
+		for (const [name, layer] of entries) {
+			const path = `tileLayers.${name}`;
+			if (name.length === 0) {
+				issues.push(this.error("invalid-value", path, "Tile layer names must not be empty"));
+			}
+			this.validateString(issues, name, 32, path);
+			if (!Number.isInteger(layer.bits) || layer.bits < 1 || layer.bits > 16) {
+				issues.push(this.error("value-out-of-range", `${path}.bits`, `Value must be an integer between 1 and 16, got ${layer.bits}`));
+				continue;
+			}
+			if (layer.encoding !== undefined && !["auto", "lines", "rle", "packed"].includes(layer.encoding)) {
+				issues.push(this.error("invalid-value", `${path}.encoding`, `Unknown tile layer encoding: ${layer.encoding}`));
+			}
+			if (!(layer.values instanceof Uint16Array) || layer.values.length !== data.width * data.height) {
+				issues.push(this.error("tile-count-mismatch", `${path}.values`, `Expected ${data.width * data.height} values for a ${data.width}x${data.height} map, got ${layer.values?.length}`));
+				continue;
+			}
+			const max = 2 ** layer.bits - 1;
+			const index = layer.values.findIndex(value => value > max);
+			if (index !== -1) {
+				issues.push(this.error("value-out-of-range", `${path}.values`, `Value ${layer.values[index]} of tile ${index} doesn't fit into ${layer.bits} bits`));
+			}
+		}
+	}
+
+	/**
+	 * @param issues list to add problems to
+	 * @param value string to check, undefined is accepted
+	 * @param maxLength maximum length in bytes (utf-8)
+	 * @param path path of the value used in issues
+	 * @private
+	 */
+	private validateString(issues: ValidationIssue[], value: string | undefined, maxLength: number, path: string) {
+		if (value === undefined) return;
+		if (typeof value !== "string") {
+			issues.push(this.error("invalid-value", path, "Value must be a string"));
+			return;
+		}
+		const length = new TextEncoder().encode(value).length;
+		if (length > maxLength) {
+			issues.push(this.error("string-too-long", path, `String is ${length} bytes long, at most ${maxLength} bytes are allowed`));
+		}
+	}
+
+	/**
+	 * @param issues list to add problems to
+	 * @param value number to check, undefined is accepted
+	 * @param max maximum allowed value, the minimum is always 0
+	 * @param path path of the value used in issues
+	 * @private
+	 */
+	private validateInteger(issues: ValidationIssue[], value: number | undefined, max: number, path: string) {
+		if (value === undefined) return;
+		if (!Number.isInteger(value) || value < 0 || value > max) {
+			issues.push(this.error("value-out-of-range", path, `Value must be an integer between 0 and ${max}, got ${value}`));
+		}
+	}
+
+	/**
+	 * @param code machine readable issue code
+	 * @param path path of the offending value
+	 * @param message human readable description
+	 * @returns error issue
+	 * @private
+	 */
+	private error(code: string, path: string, message: string): ValidationIssue {
+		return {severity: "error", code, path, message};
+	}
+
+	/**
+	 * @param code machine readable issue code
+	 * @param path path of the offending value
+	 * @param message human readable description
+	 * @returns warning issue
+	 * @private
+	 */
+	private warning(code: string, path: string, message: string): ValidationIssue {
+		return {severity: "warning", code, path, message};
+	}
+}
+
+export const mapValidator = new MapValidator();
\ No newline at end of file
@@ -0,0 +1,106 @@
+import type {MapMetadata} from "../MapCodec";
+import type {LazyWriter} from "./util/LazyWriter";
+import type {StreamReader} from "./util/StreamReader";
+import {UnsupportedVersionException} from "./util/CodecException";
+
+// Bump this when adding fields, older blocks must stay readable
+const METADATA_VERSION = 0;
+
+class MetadataCodec {
+	/**
+	 * Writes the metadata block
+	 * @param writer writer to use
+	 * @param metadata metadata to write, missing fields are marked as absent
+	 */
+	write(writer: LazyWriter, metadata: MapMetadata): void {
+		writer.writeBits(4, METADATA_VERSION);
+		this.writeOptionalString(writer, 64, metadata.name);
+		this.writeOptionalString(writer, 32, metadata.author);
+		this.writeOptionalString(writer, 1024, metadata.description);
+		this.writeOptionalTimestamp(writer, metadata.createdAt);
+		this.writeOptionalTimestamp(writer, metadata.modifiedAt);
+		this.writeOptionalString(writer, 16, metadata.editorVersion);
+	}
+
+	/**
+	 * Reads the metadata block
+	 * @param reader reader to use
+	 * @returns metadata, absent fields are omitted
+	 * @throws UnsupportedVersionException if the block version is not supported
+	 */
+	read(reader: StreamReader): MapMetadata {
+		const version = reader.readBits(4);
+		if (version > METADATA_VERSION) {
+			throw new UnsupportedVersionException(`Unsupported metadata version: ${version}`);
+		}
+
+		const metadata: MapMetadata = {};
+		const name = this.readOptionalString(reader, 64);
+		if (name !== undefined) metadata.name = name;
+		const author = this.readOptionalString(reader, 32);
+		if (author !== undefined) metadata.author = author;
+		const description = this.readOptionalString(reader, 1024);
+		if (description !== undefined) metadata.description = description;
+		const createdAt = this.readOptionalTimestamp(reader);
+		if (createdAt !== undefined) metadata.createdAt = createdAt;
+		const modifiedAt = this.readOptionalTimestamp(reader);
+		if (modifiedAt !== undefined) metadata.modifiedAt = modifiedAt;
+		const editorVersion = this.readOptionalString(reader, 16);
+		if (editorVersion !== undefined) metadata.editorVersion = editorVersion;
+		return metadata;
+	}
+
+	/**
+	 * Writes a presence flag followed by the string, if present
+	 * @param writer writer to use
+	 * @param maxLength length to truncate the string to
+	 * @param value string to write
+	 * @private
+	 */
+	private writeOptionalString(writer: LazyWriter, maxLength: number, value: string | undefined) {
+		writer.writeBoolean(value !== undefined);
+		if (value !== undefined) {
+			writer.writeString(maxLength, value);
+		}
+	}
+
+	/**
+	 * Writes a presence flag followed by the timestamp, if present
+	 *
+	 * Timestamps are stored as 48-bit milliseconds since the unix epoch
+	 *
+	 * @param writer writer to use
+	 * @param value timestamp to write
+	 * @private
+	 */
+	private writeOptionalTimestamp(writer: LazyWriter, value: number | undefined) {
+		writer.writeBoolean(value !== undefined);
+		if (value !== undefined) {
+			writer.writeBits(32, value % 2 ** 32);
+			writer.writeBits(16, Math.floor(value / 2 ** 32));
+		}
+	}
+
+	/**
+	 * @param reader reader to use
+	 * @param maxLength maximum length of the string
+	 * @returns string, or undefined if absent
+	 * @private
+	 */
+	private readOptionalString(reader: StreamReader, maxLength: number): string | undefined {
+		return reader.readBoolean() ? reader.readString(maxLength) : undefined;
+	}
+
+	/**
+	 * @param reader reader to use
+	 * @returns timestamp in milliseconds, or undefined if absent
+	 * @private
+	 */
+	private readOptionalTimestamp(reader: StreamReader): number | undefined {
+		if (!reader.readBoolean()) return undefined;
+		const low = reader.readBits(32);
+		return reader.readBits(16) * 2 ** 32 + low;
+	}
+}
+
+export const metadataCodec = new MetadataCodec();
\ No newline at end of file
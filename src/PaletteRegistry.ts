@@ -0,0 +1,105 @@
+import type {TilePalette, TileType} from "../MapCodec";
+import {Crc32} from "./util/Crc32";
+import {CodecException, UnknownPaletteException} from "./util/CodecException";
+
+export class PaletteRegistry {
+	private readonly palettes: Map<string, TilePalette> = new Map();
+
+	/**
+	 * Registers a palette, maps encoded with it can only be decoded while it is registered
+	 * @param palette palette to register, attributes of its types are not part of the palette
+	 * @throws CodecException if the palette is invalid or this id and version are already registered
+	 */
+	register(palette: TilePalette): void {
+		this.check(palette);
+		const key = PaletteRegistry.key(palette.id, palette.version);
+		if (this.palettes.has(key)) {
+			throw new CodecException(`Palette ${palette.id} version ${palette.version} is already registered`);
+		}
+		this.palettes.set(key, {...palette, types: palette.types.map(type => ({...type}))});
+	}
+
+	/**
+	 * Removes a palette, maps referencing it can't be decoded afterwards
+	 * @param id palette id
+	 * @param version palette version
+	 */
+	unregister(id: string, version: number): void {
+		this.palettes.delete(PaletteRegistry.key(id, version));
+	}
+
+	/**
+	 * @param id palette id
+	 * @param version palette version
+	 * @returns registered palette, undefined if it is not registered
+	 */
+	get(id: string, version: number): TilePalette | undefined {
+		return this.palettes.get(PaletteRegistry.key(id, version));
+	}
+
+	/**
+	 * Looks up the palette a map was encoded with
+	 * @param id palette id stored in the map
+	 * @param version palette version stored in the map
+	 * @param hash palette hash stored in the map
+	 * @returns registered palette
+	 * @throws UnknownPaletteException if the palette is not registered or its types differ from the stored hash
+	 */
+	resolve(id: string, version: number, hash: number): TilePalette {
+		const palette = this.get(id, version);
+		if (!palette) {
+			throw new UnknownPaletteException(`The map uses palette ${id} version ${version}, which is not registered`);
+		}
+		if (this.hash(palette) !== hash) {
+			throw new UnknownPaletteException(`Palette ${id} version ${version} differs from the one the map was encoded with`);
+		}
+		return palette;
+	}
+
+	/**
+	 * Checks a palette before it is registered or used for encoding
+	 * @param palette palette to check
+	 * @throws CodecException if the id, version or number of types is out of range
+	 */
+	check(palette: TilePalette): void {
+		const idLength = new TextEncoder().encode(palette.id).length;
+		if (idLength < 1 || idLength > 32) {
+			throw new CodecException(`Palette ids must be 1-32 bytes long, got ${JSON.stringify(palette.id)}`);
+		}
+		if (!Number.isInteger(palette.version) || palette.version < 0 || palette.version > 65535) {
+			throw new CodecException(`Palette version must be an integer between 0 and 65535, got ${palette.version}`);
+		}
+		if (palette.types.length === 0 || palette.types.length > 65535) {
+			throw new CodecException(`Palettes need between 1 and 65535 types, got ${palette.types.length}`);
+		}
+	}
+
+	/**
+	 * Checksums the stored fields of all palette types, so maps notice if a palette changed without a new version
+	 * @param palette palette to hash
+	 * @returns unsigned 32-bit hash
+	 */
+	hash(palette: TilePalette): number {
+		return Crc32.compute(new TextEncoder().encode(palette.types.map(PaletteRegistry.typeKey).join("\n")));
+	}
+
+	/**
+	 * @param type tile type
+	 * @returns key equal for types that are stored identically, attributes are stored separately
+	 */
+	static typeKey(type: TileType): string {
+		return JSON.stringify([type.name, type.colorBase, type.colorVariant, type.conquerable, type.navigable, type.expansionTime, type.expansionCost]);
+	}
+
+	/**
+	 * @param id palette id
+	 * @param version palette version
+	 * @returns key in the palette map
+	 * @private
+	 */
+	private static key(id: string, version: number): string {
+		return `${version}:${id}`;
+	}
+}
+
+export const paletteRegistry = new PaletteRegistry();
\ No newline at end of file
@@ -0,0 +1,372 @@
+import type {RawMapData, TileType} from "../MapCodec";
+import {LazyWriter} from "./util/LazyWriter";
+import {StreamReader} from "./util/StreamReader";
+import {Crc32} from "./util/Crc32";
+import {ChecksumException, CodecException, PatchMismatchException, TypeIndexException, UnsupportedVersionException} from "./util/CodecException";
+import {mapEncoder} from "./MapEncoder";
+import {mapDecoder} from "./MapDecoder";
+import {metadataCodec} from "./MetadataCodec";
+import {layerCodec} from "./LayerCodec";
+import {extensionRegistry} from "./ExtensionRegistry";
+import {tileAttributeRegistry} from "./TileAttributes";
+import {tileLayerCodec} from "./TileLayerCodec";
+
+// Bump this for breaking changes, patches are short-lived so older versions don't need to stay readable
+const PATCH_VERSION = 0;
+
+class PatchCodec {
+	/**
+	 * Creates a patch turning one map into another
+	 *
+	 * Types of the new map that also exist in the old one are stored as references, so reordering or
+	 * removing types doesn't mark their tiles as changed. Changed tiles are stored as runs in row-major order.
+	 *
+	 * @param base map the patch will be applied to
+	 * @param target map the patch produces, must have passed validation
+	 * @returns binary patch
+	 */
+	diff(base: RawMapData, target: RawMapData): Uint8Array {
+		const writer = new LazyWriter();
+		writer.writeBits(4, PATCH_VERSION);
+		writer.writeBits(32, this.hash(base));
+		writer.writeBits(32, this.hash(target));
+		writer.writeBits(16, target.width);
+		writer.writeBits(16, target.height);
+
+		const sources = this.matchTypes(base.types, target.types);
+		writer.writeBits(16, target.types.length);
+		for (let i = 0; i < target.types.length; i++) {
+			writer.writeBoolean(sources[i] !== -1);
+			if (sources[i] !== -1) {
+				writer.writeBits(16, sources[i]);
+			} else {
+				mapEncoder.writeTileType(writer, target.types[i]);
+			}
+		}
+
+		const remap = new Int32Array(base.types.length).fill(-1);
+		for (let i = target.types.length - 1; i >= 0; i--) {
+			if (sources[i] !== -1) remap[sources[i]] = i;
+		}
+		const tiles = this.remapTiles(base, remap, target.width, target.height);
+		this.writeRuns(writer, tiles, target.tiles, Math.ceil(Math.log2(target.types.length)));
+
+		const writeMetadata = (writer: LazyWriter, data: RawMapData) => metadataCodec.write(writer, data.metadata ?? {});
+		const writeLayers = (writer: LazyWriter, data: RawMapData) => layerCodec.write(writer, data);
+		const writeExtensions = (writer: LazyWriter, data: RawMapData) => extensionRegistry.writeChunks(writer, tileAttributeRegistry.withAttributeChunk(data));
+		const metadataChanged = this.sectionChanged(base, target, writeMetadata);
+		const layersChanged = base.width !== target.width || base.height !== target.height || this.sectionChanged(base, target, writeLayers);
+		const extensionsChanged = this.sectionChanged(base, target, writeExtensions);
+		const tileLayersChanged = !this.tileLayersEqual(base, target);
+		writer.writeBoolean(metadataChanged);
+		writer.writeBoolean(layersChanged);
+		writer.writeBoolean(extensionsChanged);
+		writer.writeBoolean(tileLayersChanged);
+		writer.writeBits(4, 0); // reserved for future use
+		if (metadataChanged) writeMetadata(writer, target);
+		if (layersChanged) writeLayers(writer, target);
+		if (extensionsChanged) writeExtensions(writer, target);
+		if (tileLayersChanged) tileLayerCodec.write(writer, target);
+		return writer.compress();
+	}
+
+	/**
+	 * Applies a patch created by {@link diff}
+	 * @param base map to apply the patch to, it is not modified
+	 * @param patch binary patch
+	 * @returns patched map
+	 * @throws PatchMismatchException if the patch was created for a different map
+	 * @throws ChecksumException if the patch is corrupted
+	 * @throws UnsupportedVersionException if the patch uses an unsupported version
+	 */
+	apply(base: RawMapData, patch: Uint8Array): RawMapData {
+		const reader = new StreamReader(patch);
+		const version = reader.readBits(4);
+		if (version > PATCH_VERSION) {
+			throw new UnsupportedVersionException(`Unsupported patch version: ${version}`);
+		}
+		if (reader.readBits(32) !== this.hash(base)) {
+			throw new PatchMismatchException("The patch was created for a different map");
+		}
+		const targetHash = reader.readBits(32);
+		const width = reader.readBits(16);
+		const height = reader.readBits(16);
+
+		const typeCount = reader.readBits(16);
+		const types: TileType[] = [];
+		const remap = new Int32Array(base.types.length).fill(-1);
+		for (let i = 0; i < typeCount; i++) {
+			if (reader.readBoolean()) {
+				const source = reader.readBits(16);
+				if (source >= base.types.length) {
+					throw new TypeIndexException(`Patch references base type ${source}, only ${base.types.length} types are defined`);
+				}
+				if (remap[source] === -1) remap[source] = i;
+				types.push({...base.types[source]});
+			} else {
+				types.push(mapDecoder.readTileType(reader));
+			}
+		}
+
+		const tiles = this.remapTiles(base, remap, width, height);
+		this.readRuns(reader, tiles, typeCount);
+		let result: RawMapData = {width, height, tiles: new Uint16Array(tiles), types};
+		// copied so editing the patched map leaves the base untouched, e.g. in an undo history
+		if (base.metadata) result.metadata = {...base.metadata};
+		if (base.spawns) result.spawns = base.spawns.map(point => ({...point}));
+		if (base.capitals) result.capitals = base.capitals.map(point => ({...point}));
+		if (base.regions) result.regions = base.regions.map(region => ({...region, tiles: [...region.tiles]}));
+		if (base.extensions) result.extensions = {...base.extensions};
+		if (base.tileLayers) {
+			result.tileLayers = {};
+			for (const [name, layer] of Object.entries(base.tileLayers)) {
+				result.tileLayers[name] = {...layer, values: layer.values.slice()};
+			}
+		}
+
+		const metadataChanged = reader.readBoolean();
+		const layersChanged = reader.readBoolean();
+		const extensionsChanged = reader.readBoolean();
+		const tileLayersChanged = reader.readBoolean();
+		reader.readBits(4); // reserved for future use
+		if (metadataChanged) {
+			result.metadata = metadataCodec.read(reader);
+		}
+		if (layersChanged) {
+			delete result.spawns;
+			delete result.capitals;
+			delete result.regions;
+			const layers = layerCodec.read(reader, width, height);
+			for (const key of ["spawns", "capitals", "regions"] as const) {
+				if (layers[key]?.length) {
+					Object.assign(result, {[key]: layers[key]});
+				}
+			}
+		}
+		if (extensionsChanged) {
+			const extensions = extensionRegistry.readChunks(reader);
+			delete result.extensions;
+			if (Object.keys(extensions).length > 0) {
+				result.extensions = extensions;
+			}
+			for (const type of types) {
+				delete type.attributes;
+			}
+			result = tileAttributeRegistry.resolve(result);
+		} else {
+			// the attribute chunk is part of the extensions, so the attributes of each index are unchanged
+			types.forEach((type, i) => {
+				const attributes = base.types[i]?.attributes;
+				if (attributes) type.attributes = {...attributes};
+				else delete type.attributes;
+			});
+		}
+		if (tileLayersChanged) {
+			const tileLayers = tileLayerCodec.read(reader, width, height);
+			delete result.tileLayers;
+			if (Object.keys(tileLayers).length > 0) {
+				result.tileLayers = tileLayers;
+			}
+		}
+
+		if (this.hash(result) !== targetHash) {
+			throw new ChecksumException("The patched map doesn't match the expected result, the patch is corrupted");
+		}
+		return result;
+	}
+
+	/**
+	 * Writes the runs of tiles that differ from the remapped base
+	 * @param writer writer to use
+	 * @param base remapped base tiles, -1 marks tiles without a base value
+	 * @param target target tiles
+	 * @param typeLength length of type ids
+	 * @private
+	 */
+	private writeRuns(writer: LazyWriter, base: Int32Array, target: Uint16Array, typeLength: number) {
+		const runs: number[] = []; // start, length, type
+		for (let i = 0; i < target.length; i++) {
+			if (base[i] === target[i]) continue;
+			const last = runs.length - 3;
+			if (last >= 0 && runs[last] + runs[last + 1] === i && runs[last + 2] === target[i]) {
+				runs[last + 1]++;
+			} else {
+				runs.push(i, 1, target[i]);
+			}
+		}
+
+		writer.writeBits(32, runs.length / 3);
+		let position = 0;
+		for (let i = 0; i < runs.length; i += 3) {
+			writer.writeNumber(runs[i] - position);
+			writer.writeNumber(runs[i + 1] - 1);
+			writer.writeBits(typeLength, runs[i + 2]);
+			position = runs[i] + runs[i + 1];
+		}
+	}
+
+	/**
+	 * Reads runs written by {@link writeRuns} into the remapped base
+	 * @param reader reader to use
+	 * @param tiles remapped base tiles, -1 marks tiles without a base value
+	 * @param typeCount number of types of the patched map
+	 * @throws CodecException if a run leaves the map or tiles without a value remain
+	 * @throws TypeIndexException if a run references an unknown type
+	 * @private
+	 */
+	private readRuns(reader: StreamReader, tiles: Int32Array, typeCount: number) {
+		const typeLength = Math.ceil(Math.log2(typeCount));
+		const runCount = reader.readBits(32);
+		let position = 0;
+		for (let i = 0; i < runCount; i++) {
+			const start = position + reader.readNumber();
+			const length = reader.readNumber() + 1;
+			const type = reader.readBits(typeLength);
+			if (type >= typeCount) {
+				throw new TypeIndexException(`Tile type ${type} is out of range, only ${typeCount} types are defined`);
+			}
+			if (start + length > tiles.length) {
+				throw new CodecException("Patch run leaves the map, the patch is corrupted");
+			}
+			tiles.fill(type, start, start + length);
+			position = start + length;
+		}
+		if (tiles.includes(-1)) {
+			throw new CodecException("Patch leaves tiles without a type, the patch is corrupted");
+		}
+	}
+
+	/**
+	 * Finds the base type each target type is a copy of, preferring the same index
+	 * @param base types of the base map
+	 * @param target types of the target map
+	 * @returns base index for each target type, -1 for new types
+	 * @private
+	 */
+	private matchTypes(base: TileType[], target: TileType[]): Int32Array {
+		const keys = base.map(type => JSON.stringify(this.typeKey(type)));
+		const used = new Uint8Array(base.length);
+		const sources = new Int32Array(target.length).fill(-1);
+		for (const preferSame of [true, false]) {
+			for (let i = 0; i < target.length; i++) {
+				if (sources[i] !== -1) continue;
+				const key = JSON.stringify(this.typeKey(target[i]));
+				const index = preferSame ? (i < base.length && !used[i] && keys[i] === key ? i : -1) : keys.findIndex((other, j) => !used[j] && other === key);
+				if (index !== -1) {
+					sources[i] = index;
+					used[index] = 1;
+				}
+			}
+		}
+		return sources;
+	}
+
+	/**
+	 * @param type tile type
+	 * @returns stored fields of the type in a fixed order, attributes are restored from the extensions section
+	 * @private
+	 */
+	private typeKey(type: TileType): unknown[] {
+		return [type.name, type.colorBase, type.colorVariant, type.conquerable, type.navigable, type.expansionTime, type.expansionCost];
+	}
+
+	/**
+	 * Maps base tiles to target type ids and resizes them to the target dimensions
+	 * @param base base map
+	 * @param remap target type id for each base type, -1 if the type was removed
+	 * @param width target width
+	 * @param height target height
+	 * @returns remapped tiles, -1 for tiles outside the base map or of removed types
+	 * @private
+	 */
+	private remapTiles(base: RawMapData, remap: Int32Array, width: number, height: number): Int32Array {
+		const tiles = new Int32Array(width * height).fill(-1);
+		for (let y = 0; y < Math.min(height, base.height); y++) {
+			for (let x = 0; x < Math.min(width, base.width); x++) {
+				tiles[y * width + x] = remap[base.tiles[y * base.width + x]] ?? -1;
+			}
+		}
+		return tiles;
+	}
+
+	/**
+	 * Calculates a checksum over everything a patch can change
+	 * @param data map data
+	 * @returns unsigned 32-bit checksum
+	 * @private
+	 */
+	private hash(data: RawMapData): number {
+		const header = this.sectionBytes(writer => {
+			writer.writeBits(16, data.width);
+			writer.writeBits(16, data.height);
+			writer.writeBits(16, data.types.length);
+			for (const type of data.types) {
+				mapEncoder.writeTileType(writer, type);
+			}
+			metadataCodec.write(writer, data.metadata ?? {});
+			layerCodec.write(writer, data);
+			extensionRegistry.writeChunks(writer, tileAttributeRegistry.withAttributeChunk(data));
+			for (const [name, layer] of Object.entries(data.tileLayers ?? {})) {
+				writer.writeString(32, name);
+				writer.writeBits(4, layer.bits - 1);
+			}
+		});
+		let hash = Crc32.update(Crc32.compute(header), this.bytesOf(data.tiles));
+		for (const layer of Object.values(data.tileLayers ?? {})) {
+			hash = Crc32.update(hash, this.bytesOf(layer.values));
+		}
+		return hash;
+	}
+
+	/**
+	 * @param values typed array to view
+	 * @returns bytes of the array, without copying
+	 * @private
+	 */
+	private bytesOf(values: Uint16Array): Uint8Array {
+		return new Uint8Array(values.buffer, values.byteOffset, values.byteLength);
+	}
+
+	/**
+	 * Compares tile layers by their values and requested encoding, so re-encoding keeps the storage
+	 * @param base base map
+	 * @param target target map
+	 * @returns whether both maps have the same tile layers in the same order
+	 * @private
+	 */
+	private tileLayersEqual(base: RawMapData, target: RawMapData): boolean {
+		const a = Object.entries(base.tileLayers ?? {});
+		const b = Object.entries(target.tileLayers ?? {});
+		return a.length === b.length && a.every(([name, layer], i) => {
+			const [otherName, other] = b[i];
+			return name === otherName && layer.bits === other.bits && layer.encoding === other.encoding && layer.values.length === other.values.length
+				&& layer.values.every((value, j) => value === other.values[j]);
+		});
+	}
+
+	/**
+	 * @param write function writing the section
+	 * @returns bytes of the section
+	 * @private
+	 */
+	private sectionBytes(write: (writer: LazyWriter) => void): Uint8Array {
+		const writer = new LazyWriter();
+		write(writer);
+		return writer.compress();
+	}
+
+	/**
+	 * @param base base map
+	 * @param target target map
+	 * @param write function writing the section of a map
+	 * @returns whether the section is stored differently for both maps
+	 * @private
+	 */
+	private sectionChanged(base: RawMapData, target: RawMapData, write: (writer: LazyWriter, data: RawMapData) => void): boolean {
+		const a = this.sectionBytes(writer => write(writer, base));
+		const b = this.sectionBytes(writer => write(writer, target));
+		return a.length !== b.length || a.some((value, i) => value !== b[i]);
+	}
+}
+
+export const patchCodec = new PatchCodec();
\ No newline at end of file
@@ -0,0 +1,207 @@
+import type {RgbaImage} from "../MapCodec";
+import {Crc32} from "./util/Crc32";
+import {Zlib} from "./util/Zlib";
+import {CodecException} from "./util/CodecException";
+
+const SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+class PngCodec {
+	/**
+	 * Decodes a non-interlaced PNG image with 8-bit channels or a palette
+	 * @param data file contents
+	 * @returns image with RGBA pixels
+	 * @throws CodecException if the file is not a supported PNG image
+	 */
+	decode(data: Uint8Array): RgbaImage {
+		if (data.length < 8 || SIGNATURE.some((value, i) => data[i] !== value)) {
+			throw new CodecException("Not a PNG file");
+		}
+		const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+		let header: {width: number, height: number, bitDepth: number, colorType: number} | null = null;
+		let palette: Uint8Array = new Uint8Array(0);
+		let transparency: Uint8Array = new Uint8Array(0);
+		const compressed: Uint8Array[] = [];
+		for (let offset = 8; offset + 12 <= data.length;) {
+			const length = view.getUint32(offset);
+			const type = String.fromCharCode(...data.subarray(offset + 4, offset + 8));
+			const chunk = data.subarray(offset + 8, offset + 8 + length);
+			offset += length + 12;
+			if (type === "IHDR") {
+				if (chunk.length < 13) throw new CodecException("PNG header is truncated");
+				if (chunk[12] !== 0) throw new CodecException("Interlaced PNG images are not supported");
+				const fields = new DataView(chunk.buffer, chunk.byteOffset, chunk.byteLength);
+				header = {width: fields.getUint32(0), height: fields.getUint32(4), bitDepth: chunk[8], colorType: chunk[9]};
+			} else if (type === "PLTE") {
+				palette = chunk;
+			} else if (type === "tRNS") {
+				transparency = chunk;
+			} else if (type === "IDAT") {
+				compressed.push(chunk);
+			} else if (type === "IEND") {
+				break;
+			}
+		}
+		if (!header) {
+			throw new CodecException("PNG file has no header");
+		}
+
+		const {width, height, bitDepth, colorType} = header;
+		const channels = {0: 1, 2: 3, 3: 1, 4: 2, 6: 4}[colorType];
+		if (!channels || (colorType === 3 ? ![1, 2, 4, 8].includes(bitDepth) : bitDepth !== 8)) {
+			throw new CodecException(`Unsupported PNG format: color type ${colorType} with ${bitDepth}-bit samples`);
+		}
+		const rows = this.unfilter(Zlib.inflate(this.concat(compressed)), width, height, channels, bitDepth);
+		const stride = Math.ceil(width * channels * bitDepth / 8);
+
+		const pixels = new Uint8Array(width * height * 4);
+		for (let y = 0; y < height; y++) {
+			for (let x = 0; x < width; x++) {
+				const source = y * stride + x * channels;
+				const target = (y * width + x) * 4;
+				if (colorType === 3) {
+					const index = (rows[y * stride + (x * bitDepth >>> 3)] >>> (8 - bitDepth - (x * bitDepth & 7))) & ((1 << bitDepth) - 1);
+					pixels.set(palette.subarray(index * 3, index * 3 + 3), target);
+					pixels[target + 3] = index < transparency.length ? transparency[index] : 255;
+				} else if (colorType === 0 || colorType === 4) {
+					pixels.fill(rows[source], target, target + 3);
+					pixels[target + 3] = colorType === 4 ? rows[source + 1] : 255;
+				} else {
+					pixels.set(rows.subarray(source, source + 3), target);
+					pixels[target + 3] = colorType === 6 ? rows[source + 3] : 255;
+				}
+			}
+		}
+		return {width, height, pixels};
+	}
+
+	/**
+	 * Encodes an image as PNG, using a palette if it has at most 256 colors
+	 * @param image image with RGBA pixels, alpha is ignored
+	 * @returns file contents
+	 */
+	encode(image: RgbaImage): Uint8Array {
+		const colors = new Map<number, number>();
+		const pixelCount = image.width * image.height;
+		for (let i = 0; i < pixelCount && colors.size <= 256; i++) {
+			const color = image.pixels[i * 4] << 16 | image.pixels[i * 4 + 1] << 8 | image.pixels[i * 4 + 2];
+			if (!colors.has(color)) colors.set(color, colors.size);
+		}
+		const indexed = colors.size <= 256;
+		const channels = indexed ? 1 : 3;
+		const stride = image.width * channels + 1;
+
+		const rows = new Uint8Array(stride * image.height); // filter type 0 for every row
+		for (let y = 0; y < image.height; y++) {
+			for (let x = 0; x < image.width; x++) {
+				const source = (y * image.width + x) * 4;
+				const target = y * stride + 1 + x * channels;
+				if (indexed) {
+					rows[target] = colors.get(image.pixels[source] << 16 | image.pixels[source + 1] << 8 | image.pixels[source + 2]) as number;
+				} else {
+					rows.set(image.pixels.subarray(source, source + 3), target);
+				}
+			}
+		}
+
+		const header = new Uint8Array(13);
+		new DataView(header.buffer).setUint32(0, image.width);
+		new DataView(header.buffer).setUint32(4, image.height);
+		header.set([8, indexed ? 3 : 2, 0, 0, 0], 8);
+		const chunks = [this.chunk("IHDR", header)];
+		if (indexed) {
+			const palette = new Uint8Array(colors.size * 3);
+			for (const [color, index] of colors) {
+				palette.set([color >>> 16, color >>> 8 & 0xff, color & 0xff], index * 3);
+			}
+			chunks.push(this.chunk("PLTE", palette));
+		}
+		chunks.push(this.chunk("IDAT", Zlib.deflate(rows)), this.chunk("IEND", new Uint8Array(0)));
+		return this.concat([new Uint8Array(SIGNATURE), ...chunks]);
+	}
+
+	/**
+	 * Reverses the per-row filters
+	 * @param data inflated image data, each row prefixed with its filter type
+	 * @param width image width
+	 * @param height image height
+	 * @param channels samples per pixel
+	 * @param bitDepth bits per sample
+	 * @returns unfiltered rows without filter types
+	 * @throws CodecException if the data is too short or uses an unknown filter
+	 * @private
+	 */
+	private unfilter(data: Uint8Array, width: number, height: number, channels: number, bitDepth: number): Uint8Array {
+		const stride = Math.ceil(width * channels * bitDepth / 8);
+		const bytesPerPixel = Math.max(1, channels * bitDepth / 8);
+		if (data.length < (stride + 1) * height) {
+			throw new CodecException("PNG image data is truncated");
+		}
+		const result = new Uint8Array(stride * height);
+		for (let y = 0; y < height; y++) {
+			const filter = data[y * (stride + 1)];
+			const row = y * stride;
+			for (let i = 0; i < stride; i++) {
+				const value = data[y * (stride + 1) + 1 + i];
+				const left = i >= bytesPerPixel ? result[row + i - bytesPerPixel] : 0;
+				const up = y > 0 ? result[row - stride + i] : 0;
+				const upLeft = y > 0 && i >= bytesPerPixel ? result[row - stride + i - bytesPerPixel] : 0;
+				if (filter === 0) result[row + i] = value;
+				else if (filter === 1) result[row + i] = value + left;
+				else if (filter === 2) result[row + i] = value + up;
+				else if (filter === 3) result[row + i] = value + (left + up >>> 1);
+				else if (filter === 4) result[row + i] = value + this.paeth(left, up, upLeft);
+				else throw new CodecException(`Unknown PNG filter type: ${filter}`);
+			}
+		}
+		return result;
+	}
+
+	/**
+	 * @param left byte to the left
+	 * @param up byte above
+	 * @param upLeft byte above to the left
+	 * @returns paeth predictor of the three bytes
+	 * @private
+	 */
+	private paeth(left: number, up: number, upLeft: number): number {
+		const estimate = left + up - upLeft;
+		const distanceLeft = Math.abs(estimate - left);
+		const distanceUp = Math.abs(estimate - up);
+		const distanceUpLeft = Math.abs(estimate - upLeft);
+		if (distanceLeft <= distanceUp && distanceLeft <= distanceUpLeft) return left;
+		return distanceUp <= distanceUpLeft ? up : upLeft;
+	}
+
+	/**
+	 * @param parts buffers to join
+	 * @returns buffers joined in order
+	 * @private
+	 */
+	private concat(parts: Uint8Array[]): Uint8Array {
+		const result = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+		let offset = 0;
+		for (const part of parts) {
+			result.set(part, offset);
+			offset += part.length;
+		}
+		return result;
+	}
+
+	/**
+	 * @param type chunk type
+	 * @param data chunk data
+	 * @returns chunk with length and checksum
+	 * @private
+	 */
+	private chunk(type: string, data: Uint8Array): Uint8Array {
+		const result = new Uint8Array(data.length + 12);
+		const view = new DataView(result.buffer);
+		view.setUint32(0, data.length);
+		result.set(Array.from(type, char => char.charCodeAt(0)), 4);
+		result.set(data, 8);
+		view.setUint32(data.length + 8, Crc32.compute(result.subarray(4, data.length + 8)));
+		return result;
+	}
+}
+
+export const pngCodec = new PngCodec();
\ No newline at end of file
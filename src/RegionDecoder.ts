@@ -0,0 +1,94 @@
+import type {RawMapData} from "../MapCodec";
+import type {PaletteRegistry} from "./PaletteRegistry";
+import {StreamReader} from "./util/StreamReader";
+import {CodecException} from "./util/CodecException";
+import {LineReader} from "./LineReader";
+import {versionRegistry} from "./VersionRegistry";
+import {getLineFormat, openLineSource} from "./LineCoding";
+
+class RegionDecoder {
+	/**
+	 * Decodes only the tiles inside a rectangle
+	 *
+	 * All lines still have to be read, but lines that can't reach the rectangle are skipped without
+	 * decoding their tiles, and only the rectangle is filled. Outside the rectangle, the decoder only
+	 * remembers the closest line tile before it in fill direction for each row or column.
+	 *
+	 * @param data complete encoded map
+	 * @param x left edge of the rectangle
+	 * @param y top edge of the rectangle
+	 * @param width width of the rectangle
+	 * @param height height of the rectangle
+	 * @param palettes registry to resolve palette references from
+	 * @returns map data of the rectangle, sections like spawns and regions are not included
+	 * @throws UnknownPaletteException if the map uses a palette that is not in the registry
+	 * @throws CodecException if the rectangle is not inside the map or the map data is corrupted
+	 */
+	decode(data: Uint8Array, x: number, y: number, width: number, height: number, palettes: PaletteRegistry): RawMapData {
+		const decoder = versionRegistry.get(new StreamReader(data).readBits(4));
+		const reader = new StreamReader(decoder.verify(data));
+		reader.readBits(4); // version
+		const summary = decoder.inspect(reader, palettes);
+		if (!Number.isInteger(x) || !Number.isInteger(y) || !Number.isInteger(width) || !Number.isInteger(height) || x < 0 || y < 0 || width < 1 || height < 1 || x + width > summary.width || y + height > summary.height) {
+			throw new CodecException(`Rectangle ${x}, ${y}, ${width}x${height} is not inside the ${summary.width}x${summary.height} map`);
+		}
+
+		const topToBottom = summary.fillDirection === "topToBottom";
+		const mapWidth = summary.width;
+		const window = new Int32Array(width * height).fill(-1);
+		// closest line tile before the rectangle in fill direction, per row (left-to-right) or column (top-to-bottom)
+		const seeds = new Uint16Array(topToBottom ? width : height);
+		const seedPositions = new Int32Array(seeds.length).fill(-1);
+
+		const format = getLineFormat(summary);
+		const source = openLineSource(reader, summary.lineCoding === "entropy", summary.types.length, format);
+		const lineReader = new LineReader(summary.width, summary.height, summary.types.length, format);
+		const reach = lineReader.reach;
+		const skip = (start: number) => {
+			const startX = start % mapWidth;
+			const startY = Math.floor(start / mapWidth);
+			const minX = topToBottom ? x : 0;
+			const minY = topToBottom ? 0 : y;
+			if (startY + reach < minY || startY - reach >= y + height) {
+				return true;
+			}
+			// steps of ±1 wrap into the neighbouring row at the map edge, so only lines that can't reach an edge have a bounded column range
+			const wraps = startX - reach < 0 || startX + reach >= mapWidth;
+			return !wraps && (startX + reach < minX || startX - reach >= x + width);
+		};
+
+		for (let i = 0; i < summary.lineCount; i++) {
+			lineReader.read(source, skip);
+			for (let j = 0; j < lineReader.length; j++) {
+				const tileX = lineReader.positions[j] % mapWidth;
+				const tileY = Math.floor(lineReader.positions[j] / mapWidth);
+				const insideX = tileX >= x && tileX < x + width;
+				const insideY = tileY >= y && tileY < y + height;
+				if (insideX && insideY) {
+					window[(tileY - y) * width + tileX - x] = lineReader.type;
+				} else if (!topToBottom && insideY && tileX < x && seedPositions[tileY - y] < tileX) {
+					seeds[tileY - y] = lineReader.type;
+					seedPositions[tileY - y] = tileX;
+				} else if (topToBottom && insideX && tileY < y && seedPositions[tileX - x] < tileY) {
+					seeds[tileX - x] = lineReader.type;
+					seedPositions[tileX - x] = tileY;
+				}
+			}
+		}
+
+		const tiles = new Uint16Array(width * height);
+		for (let i = 0; i < seeds.length; i++) {
+			let current = seeds[i];
+			for (let j = 0; j < (topToBottom ? height : width); j++) {
+				const index = topToBottom ? j * width + i : i * width + j;
+				if (window[index] !== -1) {
+					current = window[index];
+				}
+				tiles[index] = current;
+			}
+		}
+		return {width, height, tiles, types: summary.types, metadata: summary.metadata};
+	}
+}
+
+export const regionDecoder = new RegionDecoder();
\ No newline at end of file
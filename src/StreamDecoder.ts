@@ -0,0 +1,135 @@
+import type {MapSections, MapStreamHandler} from "../MapCodec";
+import type {PaletteRegistry} from "./PaletteRegistry";
+import {StreamingReader} from "./util/StreamingReader";
+import {LineReader} from "./LineReader";
+import {versionRegistry} from "./VersionRegistry";
+import {getLineFormat, openLineSource} from "./LineCoding";
+
+// Bytes to buffer ahead before reading a line, enough for nearly all lines so reads rarely need to be retried
+const LINE_LOOKAHEAD = 128;
+
+class StreamDecoder {
+	/**
+	 * Decodes a map progressively, passing rows to the handler as soon as no later line can change them
+	 *
+	 * Lines are sorted by chunk, so once the decoder reaches a chunk band, every row further above it
+	 * than the maximum line length is final. Only those pending rows are kept in memory.
+	 * The checksum can only be verified once all data has been read, so a corrupted map is rejected
+	 * after rows have already been handed out.
+	 *
+	 * @param source complete buffer or stream to decode
+	 * @param handler receiver of the header and row bands, decoding waits for returned promises
+	 * @param bandHeight minimum number of rows per band, the last band may be smaller
+	 * @param palettes registry to resolve palette references from
+	 * @returns trailing sections of the map
+	 * @throws UnknownPaletteException if the map uses a palette that is not in the registry
+	 * @throws CodecException if the map data is corrupted or uses an unsupported version
+	 */
+	async decode(source: Uint8Array | ReadableStream<Uint8Array>, handler: MapStreamHandler, bandHeight: number, palettes: PaletteRegistry): Promise<MapSections> {
+		const reader = new StreamingReader(source);
+		const decoder = versionRegistry.get(await reader.retry(() => reader.readBits(4)));
+		const summary = await reader.retry(() => decoder.inspect(reader, palettes));
+		await handler.onHeader?.(summary);
+
+		const {width, height} = summary;
+		const format = getLineFormat(summary);
+		const lines = await reader.retry(() => openLineSource(reader, summary.lineCoding === "entropy", summary.types.length, format));
+		const lineReader = new LineReader(width, height, summary.types.length, format);
+		const rows = new RowAssembler(width, summary.fillDirection === "topToBottom");
+		for (let i = 0; i < summary.lineCount; i++) {
+			if (reader.remaining < LINE_LOOKAHEAD && !reader.done) {
+				await reader.pull();
+			}
+			await reader.retry(() => lineReader.read(lines));
+			rows.put(lineReader);
+
+			const finalRows = Math.min(height, lineReader.bandRow - lineReader.reach);
+			if (finalRows - rows.nextRow >= bandHeight) {
+				const y = rows.nextRow;
+				await handler.onRows(y, finalRows - y, rows.take(finalRows));
+			}
+		}
+		while (rows.nextRow < height) {
+			const y = rows.nextRow;
+			const endRow = Math.min(height, y + bandHeight);
+			await handler.onRows(y, endRow - y, rows.take(endRow));
+		}
+
+		const sections = await reader.retry(() => decoder.readSections(reader, width, height));
+		if (decoder.hasChecksum) {
+			await reader.verifyChecksum();
+		}
+		return sections;
+	}
+}
+
+/**
+ * Collects line points of rows that are not yet final and fills them once they are
+ */
+class RowAssembler {
+	/** First row that has not been handed out yet */
+	nextRow: number = 0;
+	private readonly width: number;
+	private readonly topToBottom: boolean;
+	/** Pending rows, -1 marks tiles not covered by a line */
+	private readonly pending: Map<number, Int32Array> = new Map();
+	/** Last value of the previous row for left-to-right filling */
+	private current: number = 0;
+	/** Last value of each column for top-to-bottom filling */
+	private readonly columns: Uint16Array;
+
+	/**
+	 * @param width map width
+	 * @param topToBottom whether gaps are filled top to bottom instead of left to right
+	 */
+	constructor(width: number, topToBottom: boolean) {
+		this.width = width;
+		this.topToBottom = topToBottom;
+		this.columns = new Uint16Array(width);
+	}
+
+	/**
+	 * Adds the points of a line
+	 * @param line line that was just read
+	 */
+	put(line: LineReader): void {
+		for (let i = 0; i < line.length; i++) {
+			const row = Math.floor(line.positions[i] / this.width);
+			let values = this.pending.get(row);
+			if (!values) {
+				values = new Int32Array(this.width).fill(-1);
+				this.pending.set(row, values);
+			}
+			values[line.positions[i] % this.width] = line.type;
+		}
+	}
+
+	/**
+	 * Fills and removes all pending rows before the given row
+	 * @param endRow first row to keep pending
+	 * @returns filled rows, row-major
+	 */
+	take(endRow: number): Uint16Array {
+		const y = this.nextRow;
+		const tiles = new Uint16Array((endRow - y) * this.width);
+		for (let row = y; row < endRow; row++) {
+			const values = this.pending.get(row);
+			this.pending.delete(row);
+			const offset = (row - y) * this.width;
+			for (let x = 0; x < this.width; x++) {
+				const value = values ? values[x] : -1;
+				if (this.topToBottom) {
+					if (value !== -1) this.columns[x] = value;
+					tiles[offset + x] = this.columns[x];
+				} else {
+					if (value !== -1) this.current = value;
+					tiles[offset + x] = this.current;
+				}
+			}
+		}
+		this.nextRow = endRow;
+		return tiles;
+	}
+}
+
+export const streamDecoder = new StreamDecoder();
\ No newline at end of file
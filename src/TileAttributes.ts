@@ -0,0 +1,301 @@
+import type {RawMapData, TileAttributeDefinition, TileAttributeType, TileAttributeValue, TileType} from "../MapCodec";
+import type {ExtensionChunk} from "./ExtensionRegistry";
+import type {LazyWriter} from "./util/LazyWriter";
+import type {StreamReader} from "./util/StreamReader";
+import {extensionRegistry} from "./ExtensionRegistry";
+import {CodecException, UnsupportedVersionException} from "./util/CodecException";
+
+// Bump this when changing the chunk layout, older chunks must stay readable
+const ATTRIBUTE_VERSION = 0;
+
+/** Name of the built-in extension chunk storing the attributes, stored attributes are moved into the types when decoding */
+export const ATTRIBUTE_CHUNK = "tileAttributes";
+
+/** Stored type id of each attribute type, append new types to keep ids stable */
+const ATTRIBUTE_TYPES: TileAttributeType[] = ["bool", "uint8", "uint16", "float16", "string"];
+
+const MAX_NAME_LENGTH = 32;
+const MAX_STRING_LENGTH = 255;
+
+class TileAttributeRegistry {
+	private readonly definitions: Map<string, TileAttributeDefinition> = new Map();
+
+	/**
+	 * Defines an attribute, its type is used when encoding and its default is added to decoded types missing it
+	 * @param definition attribute definition
+	 * @throws CodecException if the definition is invalid or the name is already defined
+	 */
+	define(definition: TileAttributeDefinition): void {
+		if (this.definitions.has(definition.name)) {
+			throw new CodecException(`Tile attribute ${definition.name} is already defined`);
+		}
+		const nameLength = new TextEncoder().encode(definition.name).length;
+		if (nameLength < 1 || nameLength > MAX_NAME_LENGTH) {
+			throw new CodecException(`Tile attribute names must be 1-${MAX_NAME_LENGTH} bytes long, got ${JSON.stringify(definition.name)}`);
+		}
+		if (!ATTRIBUTE_TYPES.includes(definition.type)) {
+			throw new CodecException(`Unknown tile attribute type: ${definition.type}`);
+		}
+		const problem = this.checkValue(definition.type, definition.defaultValue);
+		if (problem) {
+			throw new CodecException(`Invalid default of tile attribute ${definition.name}: ${problem}`);
+		}
+		this.definitions.set(definition.name, {...definition});
+	}
+
+	/**
+	 * Removes an attribute definition, stored values of the attribute are still decoded
+	 * @param name name of the attribute
+	 */
+	remove(name: string): void {
+		this.definitions.delete(name);
+	}
+
+	/**
+	 * @param name name of the attribute
+	 * @returns definition of the attribute, undefined if it is not defined
+	 */
+	get(name: string): TileAttributeDefinition | undefined {
+		return this.definitions.get(name);
+	}
+
+	/**
+	 * Adds the defaults of all defined attributes a type is missing, e.g. for maps stored without attributes
+	 * @param types tile types
+	 * @returns types with defaults, unchanged if no attributes are defined
+	 * @private
+	 */
+	private applyDefaults(types: TileType[]): TileType[] {
+		if (this.definitions.size === 0) {
+			return types;
+		}
+		return types.map(type => {
+			const attributes = {...type.attributes};
+			for (const definition of this.definitions.values()) {
+				if (!(definition.name in attributes)) {
+					attributes[definition.name] = definition.defaultValue;
+				}
+			}
+			return {...type, attributes};
+		});
+	}
+
+	/**
+	 * @param type attribute type
+	 * @param value value to check
+	 * @returns description of the problem, null if the value can be stored
+	 */
+	checkValue(type: TileAttributeType, value: unknown): string | null {
+		switch (type) {
+			case "bool":
+				return typeof value === "boolean" ? null : "must be a boolean";
+			case "uint8":
+				return Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 255 ? null : "must be an integer between 0 and 255";
+			case "uint16":
+				return Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 65535 ? null : "must be an integer between 0 and 65535";
+			case "float16":
+				return typeof value === "number" && Math.abs(value) <= 65504 ? null : "must be a number between -65504 and 65504";
+			case "string":
+				return typeof value === "string" && new TextEncoder().encode(value).length <= MAX_STRING_LENGTH ? null : `must be a string of at most ${MAX_STRING_LENGTH} bytes (utf-8)`;
+		}
+	}
+
+	/**
+	 * Adds the attribute chunk to the extensions that are written after the tiles
+	 *
+	 * Values equal to the default of their definition are left out, decoding adds them back.
+	 *
+	 * @param data map data
+	 * @returns extensions to write, including the attribute chunk if any type has a value differing from its default
+	 */
+	withAttributeChunk(data: RawMapData): {[name: string]: unknown} {
+		const extensions = {...data.extensions};
+		const stored = data.types.map(type => this.storedAttributes(type));
+		if (stored.some(attributes => Object.keys(attributes).length > 0)) {
+			extensions[ATTRIBUTE_CHUNK] = stored;
+		}
+		return extensions;
+	}
+
+	/**
+	 * @param type tile type
+	 * @returns attributes of the type that differ from the default of their definition
+	 * @private
+	 */
+	private storedAttributes(type: TileType): {[name: string]: TileAttributeValue} {
+		const attributes: {[name: string]: TileAttributeValue} = {};
+		for (const [name, value] of Object.entries(type.attributes ?? {})) {
+			if (this.definitions.get(name)?.defaultValue !== value) {
+				attributes[name] = value;
+			}
+		}
+		return attributes;
+	}
+
+	/**
+	 * Moves attributes read from the attribute chunk into the types, defaults are added for defined attributes that aren't stored
+	 * @param data decoded map data
+	 * @returns map data without the attribute chunk in its extensions
+	 */
+	resolve(data: RawMapData): RawMapData {
+		const stored = data.extensions?.[ATTRIBUTE_CHUNK] as {[name: string]: TileAttributeValue}[] | undefined;
+		if (!stored) {
+			return this.definitions.size > 0 ? {...data, types: this.applyDefaults(data.types)} : data;
+		}
+		const {[ATTRIBUTE_CHUNK]: _, ...extensions} = data.extensions ?? {};
+		const types = data.types.map((type, i) => ({...type, attributes: {...type.attributes, ...stored[i]}}));
+		const result: RawMapData = {...data, types: this.applyDefaults(types)};
+		if (Object.keys(extensions).length > 0) {
+			result.extensions = extensions;
+		} else {
+			delete result.extensions;
+		}
+		return result;
+	}
+}
+
+/**
+ * Attribute values of every type, self-describing so maps decode without the attribute definitions
+ *
+ * Layout: version, type count, attribute count, name and type id of each attribute,
+ * then for each attribute a presence flag and value per type
+ */
+const attributeChunk: ExtensionChunk<{[name: string]: TileAttributeValue}[]> = {
+	id: 0xffff,
+	name: ATTRIBUTE_CHUNK,
+
+	write(writer: LazyWriter, value: {[name: string]: TileAttributeValue}[]): void {
+		const names = [...new Set(([] as string[]).concat(...value.map(attributes => Object.keys(attributes))))].sort();
+		if (names.length > 255) {
+			throw new CodecException(`At most 255 different tile attributes are allowed, got ${names.length}`);
+		}
+		writer.writeBits(4, ATTRIBUTE_VERSION);
+		writer.writeBits(16, value.length);
+		writer.writeBits(8, names.length);
+		const types = names.map(name => {
+			const definition = tileAttributeRegistry.get(name);
+			if (!definition) {
+				throw new CodecException(`Tile attribute ${name} is not defined, define it before encoding`);
+			}
+			writer.writeString(MAX_NAME_LENGTH, name);
+			writer.writeBits(3, ATTRIBUTE_TYPES.indexOf(definition.type));
+			return definition.type;
+		});
+		names.forEach((name, i) => {
+			for (const attributes of value) {
+				writer.writeBoolean(name in attributes);
+				if (name in attributes) {
+					writeValue(writer, types[i], attributes[name]);
+				}
+			}
+		});
+	},
+
+	read(reader: StreamReader): {[name: string]: TileAttributeValue}[] {
+		const version = reader.readBits(4);
+		if (version > ATTRIBUTE_VERSION) {
+			throw new UnsupportedVersionException(`Unsupported tile attribute version: ${version}`);
+		}
+		const value: {[name: string]: TileAttributeValue}[] = [];
+		for (let i = reader.readBits(16); i > 0; i--) {
+			value.push({});
+		}
+		const attributes = [];
+		for (let i = reader.readBits(8); i > 0; i--) {
+			const name = reader.readString(MAX_NAME_LENGTH);
+			const type = ATTRIBUTE_TYPES[reader.readBits(3)];
+			if (!type) {
+				throw new UnsupportedVersionException(`Unsupported type of tile attribute ${name}`);
+			}
+			attributes.push({name, type});
+		}
+		for (const {name, type} of attributes) {
+			for (const typeAttributes of value) {
+				if (reader.readBoolean()) {
+					typeAttributes[name] = readValue(reader, type);
+				}
+			}
+		}
+		return value;
+	}
+};
+
+/**
+ * @param writer writer to use
+ * @param type attribute type
+ * @param value value to write, must have passed validation
+ */
+function writeValue(writer: LazyWriter, type: TileAttributeType, value: TileAttributeValue): void {
+	switch (type) {
+		case "bool": writer.writeBoolean(value as boolean); break;
+		case "uint8": writer.writeBits(8, value as number); break;
+		case "uint16": writer.writeBits(16, value as number); break;
+		case "float16": writer.writeBits(16, toFloat16(value as number)); break;
+		case "string": writer.writeString(MAX_STRING_LENGTH, value as string); break;
+	}
+}
+
+/**
+ * @param reader reader to use
+ * @param type attribute type
+ * @returns value read
+ */
+function readValue(reader: StreamReader, type: TileAttributeType): TileAttributeValue {
+	switch (type) {
+		case "bool": return reader.readBoolean();
+		case "uint8": return reader.readBits(8);
+		case "uint16": return reader.readBits(16);
+		case "float16": return fromFloat16(reader.readBits(16));
+		case "string": return reader.readString(MAX_STRING_LENGTH);
+	}
+}
+
+const float32 = new Float32Array(1);
+const float32Bits = new Uint32Array(float32.buffer);
+
+/**
+ * Converts a number to IEEE 754 half precision, rounding to nearest even
+ * @param value number to convert
+ * @returns 16-bit representation
+ */
+export function toFloat16(value: number): number {
+	float32[0] = value;
+	const bits = float32Bits[0];
+	const sign = bits >>> 16 & 0x8000;
+	const exponent = (bits >>> 23 & 0xff) - 127 + 15;
+	let mantissa = bits & 0x7fffff;
+	if ((bits >>> 23 & 0xff) === 0xff) {
+		return sign | 0x7c00 | (mantissa ? 0x200 : 0);
+	}
+	if (exponent >= 0x1f) {
+		return sign | 0x7c00;
+	}
+	if (exponent <= 0) {
+		if (exponent < -10) return sign;
+		mantissa |= 0x800000; // subnormal, make the implicit bit explicit
+		const shift = 14 - exponent;
+		const half = mantissa >>> shift;
+		const rest = mantissa & (1 << shift) - 1;
+		const halfway = 1 << shift - 1;
+		return sign | half + (rest > halfway || rest === halfway && half & 1 ? 1 : 0);
+	}
+	const half = sign | exponent << 10 | mantissa >>> 13;
+	const rest = mantissa & 0x1fff;
+	return half + (rest > 0x1000 || rest === 0x1000 && half & 1 ? 1 : 0); // a carry correctly moves into the exponent
+}
+
+/**
+ * @param bits IEEE 754 half precision representation
+ * @returns number
+ */
+export function fromFloat16(bits: number): number {
+	const sign = bits & 0x8000 ? -1 : 1;
+	const exponent = bits >>> 10 & 0x1f;
+	const mantissa = bits & 0x3ff;
+	if (exponent === 0) return sign * mantissa * 2 ** -24;
+	if (exponent === 0x1f) return mantissa ? NaN : sign * Infinity;
+	return sign * (1 + mantissa / 1024) * 2 ** (exponent - 15);
+}
+
+export const tileAttributeRegistry = new TileAttributeRegistry();
+extensionRegistry.register(attributeChunk);
\ No newline at end of file
@@ -0,0 +1,209 @@
+import type {EncodeOptions, RawMapData, TileLayer, TileLayerEncoding} from "../MapCodec";
+import {LazyWriter} from "./util/LazyWriter";
+import {StreamReader} from "./util/StreamReader";
+import {CodecException} from "./util/CodecException";
+import {mapEncoder} from "./MapEncoder";
+import {mapDecoder} from "./MapDecoder";
+
+/** Stored id of each encoding, append new encodings to keep ids stable */
+const ENCODINGS: StoredEncoding[] = ["packed", "rle", "lines"];
+
+class TileLayerCodec {
+	/**
+	 * @param data map data to check
+	 * @returns whether the map contains any tile layers
+	 */
+	hasTileLayers(data: RawMapData): boolean {
+		return Object.keys(data.tileLayers ?? {}).length > 0;
+	}
+
+	/**
+	 * Writes tile layers, each in its requested encoding or, for auto, in the smallest one
+	 *
+	 * Each payload is prefixed by its length, so readers that only need the tiles can skip it.
+	 *
+	 * @param writer writer to use
+	 * @param data map data containing the layers, must have passed validation
+	 * @param options compression options for line encoded layers, progress is only reported for the tiles
+	 * @throws CodecException if the options are invalid
+	 */
+	write(writer: LazyWriter, data: RawMapData, options: EncodeOptions = {}): void {
+		const lineOptions = {...options};
+		delete lineOptions.onProgress;
+
+		const entries = Object.entries(data.tileLayers ?? {});
+		writer.writeBits(8, entries.length);
+		for (const [name, layer] of entries) {
+			const {encoding, payload} = this.encodeLayer(data, layer, lineOptions);
+			writer.writeString(32, name);
+			writer.writeBits(4, layer.bits - 1);
+			writer.writeBits(2, ENCODINGS.indexOf(encoding));
+			writer.writeBits(2, layer.encoding === undefined ? 0 : layer.encoding === "auto" ? 1 : 2); // requested encoding: none, auto or the stored one
+			writer.writeBits(32, payload.length);
+			writer.writeBytes(payload);
+		}
+	}
+
+	/**
+	 * Reads tile layers
+	 * @param reader reader to use
+	 * @param width map width
+	 * @param height map height
+	 * @returns decoded layers, keyed by name
+	 * @throws CodecException if a layer is corrupted
+	 */
+	read(reader: StreamReader, width: number, height: number): {[name: string]: TileLayer} {
+		const count = reader.readBits(8);
+		const layers: {[name: string]: TileLayer} = {};
+		for (let i = 0; i < count; i++) {
+			const name = reader.readString(32);
+			const bits = reader.readBits(4) + 1;
+			const encoding = ENCODINGS[reader.readBits(2)];
+			const requested = reader.readBits(2); // none, auto or the stored one
+			const payload = reader.readBytes(reader.readBits(32));
+			if (!encoding) {
+				throw new CodecException(`Tile layer ${name} uses an unknown encoding, the map is corrupted`);
+			}
+			layers[name] = {bits, values: this.decodeLayer(new StreamReader(payload), encoding, bits, width, height)};
+			if (requested === 1) layers[name].encoding = "auto";
+			else if (requested === 2) layers[name].encoding = encoding;
+		}
+		return layers;
+	}
+
+	/**
+	 * Encodes a layer, auto compares all encodings that could plausibly be the smallest
+	 * @param data map data containing the layer
+	 * @param layer layer to encode
+	 * @param options compression options for line encoding
+	 * @returns used encoding and its payload
+	 * @private
+	 */
+	private encodeLayer(data: RawMapData, layer: TileLayer, options: EncodeOptions): {encoding: StoredEncoding, payload: Uint8Array} {
+		const requested = layer.encoding ?? "auto";
+		if (requested !== "auto") {
+			return {encoding: requested, payload: this.encodeValues(data, layer, requested, options)};
+		}
+
+		const candidates = [{encoding: "rle" as StoredEncoding, payload: this.encodeValues(data, layer, "rle", options)}];
+		//every run starts at least one line, so noisy layers can't profit from lines
+		if (this.countRuns(layer.values) * 4 <= layer.values.length) {
+			candidates.push({encoding: "lines", payload: this.encodeValues(data, layer, "lines", options)});
+		}
+		const best = candidates.reduce((a, b) => b.payload.length < a.payload.length ? b : a);
+		if (Math.ceil(layer.values.length * layer.bits / 8) < best.payload.length) {
+			return {encoding: "packed", payload: this.encodeValues(data, layer, "packed", options)};
+		}
+		return best;
+	}
+
+	/**
+	 * @param data map data containing the layer
+	 * @param layer layer to encode
+	 * @param encoding encoding to use
+	 * @param options compression options for line encoding
+	 * @returns encoded payload
+	 * @private
+	 */
+	private encodeValues(data: RawMapData, layer: TileLayer, encoding: StoredEncoding, options: EncodeOptions): Uint8Array {
+		const writer = new LazyWriter();
+		switch (encoding) {
+			case "packed":
+				for (let i = 0; i < layer.values.length; i++) {
+					writer.writeBits(layer.bits, layer.values[i]);
+				}
+				break;
+			case "rle":
+				this.writeRuns(writer, layer);
+				break;
+			case "lines":
+				mapEncoder.writeValues(writer, {width: data.width, height: data.height, tiles: layer.values}, 1 << layer.bits, options);
+				break;
+		}
+		return writer.compress();
+	}
+
+	/**
+	 * @param reader reader containing only the layer payload
+	 * @param encoding encoding of the payload
+	 * @param bits bits per value
+	 * @param width map width
+	 * @param height map height
+	 * @returns one value per tile
+	 * @throws CodecException if the payload is corrupted
+	 * @private
+	 */
+	private decodeLayer(reader: StreamReader, encoding: StoredEncoding, bits: number, width: number, height: number): Uint16Array {
+		switch (encoding) {
+			case "packed": {
+				const values = new Uint16Array(width * height);
+				for (let i = 0; i < values.length; i++) {
+					values[i] = reader.readBits(bits);
+				}
+				return values;
+			}
+			case "rle":
+				return this.readRuns(reader, bits, width * height);
+			case "lines":
+				return mapDecoder.readValues(reader, width, height, 1 << bits);
+		}
+	}
+
+	/**
+	 * Writes runs of equal values in row-major order, until all tiles are covered
+	 * @param writer writer to use
+	 * @param layer layer to write
+	 * @private
+	 */
+	private writeRuns(writer: LazyWriter, layer: TileLayer) {
+		const values = layer.values;
+		let start = 0;
+		for (let i = 1; i <= values.length; i++) {
+			if (i < values.length && values[i] === values[start] && i - start < 2 ** 31) continue;
+			writer.writeBits(layer.bits, values[start]);
+			writer.writeNumber(i - start - 1);
+			start = i;
+		}
+	}
+
+	/**
+	 * Reads runs written by {@link writeRuns}
+	 * @param reader reader to use
+	 * @param bits bits per value
+	 * @param size number of tiles in the map
+	 * @returns one value per tile
+	 * @throws CodecException if a run leaves the map
+	 * @private
+	 */
+	private readRuns(reader: StreamReader, bits: number, size: number): Uint16Array {
+		const values = new Uint16Array(size);
+		let position = 0;
+		while (position < size) {
+			const value = reader.readBits(bits);
+			const length = reader.readNumber() + 1;
+			if (position + length > size) {
+				throw new CodecException("Tile layer run leaves the map, the map is corrupted");
+			}
+			values.fill(value, position, position + length);
+			position += length;
+		}
+		return values;
+	}
+
+	/**
+	 * @param values values to check
+	 * @returns number of runs of equal values in row-major order
+	 * @private
+	 */
+	private countRuns(values: Uint16Array): number {
+		let runs = values.length > 0 ? 1 : 0;
+		for (let i = 1; i < values.length; i++) {
+			if (values[i] !== values[i - 1]) runs++;
+		}
+		return runs;
+	}
+}
+
+type StoredEncoding = Exclude<TileLayerEncoding, "auto">;
+
+export const tileLayerCodec = new TileLayerCodec();
\ No newline at end of file
@@ -0,0 +1,102 @@
+import type {MapSummary, RawMapData} from "../MapCodec";
+import type {VersionDecoder} from "./versions/VersionDecoder";
+import type {PaletteRegistry} from "./PaletteRegistry";
+import {StreamReader} from "./util/StreamReader";
+import {UnsupportedVersionException} from "./util/CodecException";
+import {tileAttributeRegistry} from "./TileAttributes";
+import {Version0Decoder} from "./versions/Version0Decoder";
+import {Version1Decoder} from "./versions/Version1Decoder";
+import {Version2Decoder} from "./versions/Version2Decoder";
+import {Version3Decoder} from "./versions/Version3Decoder";
+import {Version4Decoder} from "./versions/Version4Decoder";
+import {Version5Decoder} from "./versions/Version5Decoder";
+import {Version6Decoder} from "./versions/Version6Decoder";
+
+class VersionRegistry {
+	private readonly decoders: VersionDecoder[] = [];
+
+	/**
+	 * Registers a decoder, versions must be registered in ascending order without gaps
+	 * @param decoder decoder to register
+	 * @throws Error if the version does not directly follow the latest registered version
+	 */
+	register(decoder: VersionDecoder): void {
+		if (decoder.version !== this.decoders.length) {
+			throw new Error(`Expected decoder for version ${this.decoders.length}, got ${decoder.version}`);
+		}
+		this.decoders.push(decoder);
+	}
+
+	/**
+	 * @returns latest version that can be decoded
+	 */
+	get latestVersion(): number {
+		return this.decoders.length - 1;
+	}
+
+	/**
+	 * @param version format version
+	 * @returns decoder for the version
+	 * @throws UnsupportedVersionException if the version is not supported
+	 */
+	get(version: number): VersionDecoder {
+		const decoder = this.decoders[version];
+		if (!decoder) {
+			throw new UnsupportedVersionException(`Unsupported map version: ${version}`);
+		}
+		return decoder;
+	}
+	/**
+	 * Decodes a map of any supported version and upgrades it to the latest shape
+	 * @param data complete encoded map
+	 * @param palettes registry to resolve palette references from
+	 * @returns map data in the latest shape
+	 * @throws UnsupportedVersionException if the version is not supported
+	 * @throws UnknownPaletteException if the map uses a palette that is not in the registry
+	 * @throws CodecException if the map data is corrupted
+	 */
+	decode(data: Uint8Array, palettes: PaletteRegistry): RawMapData {
+		const decoder = this.getDecoder(data);
+		const reader = new StreamReader(decoder.verify(data));
+		reader.readBits(4); // version
+		let result = decoder.decode(reader, palettes);
+		for (let i = decoder.version; i < this.latestVersion; i++) {
+			result = this.decoders[i].upgrade(result);
+		}
+		return tileAttributeRegistry.resolve(result);
+	}
+
+	/**
+	 * Reads the header of a map of any supported version, the checksum is not verified
+	 * @param data complete encoded map
+	 * @param palettes registry to resolve palette references from
+	 * @returns summary of the map
+	 * @throws UnsupportedVersionException if the version is not supported
+	 * @throws UnknownPaletteException if the map uses a palette that is not in the registry
+	 */
+	inspect(data: Uint8Array, palettes: PaletteRegistry): MapSummary {
+		const reader = new StreamReader(data);
+		reader.readBits(4); // version
+		return this.getDecoder(data).inspect(reader, palettes);
+	}
+
+	/**
+	 * Finds the decoder matching the version of a map
+	 * @param data complete encoded map
+	 * @returns decoder for the map version
+	 * @throws UnsupportedVersionException if the version is not supported
+	 * @private
+	 */
+	private getDecoder(data: Uint8Array): VersionDecoder {
+		return this.get(new StreamReader(data).readBits(4));
+	}
+}
+
+export const versionRegistry = new VersionRegistry();
+versionRegistry.register(new Version0Decoder());
+versionRegistry.register(new Version1Decoder());
+versionRegistry.register(new Version2Decoder());
+versionRegistry.register(new Version3Decoder());
+versionRegistry.register(new Version4Decoder());
+versionRegistry.register(new Version5Decoder());
+versionRegistry.register(new Version6Decoder());
\ No newline at end of file
@@ -0,0 +1,146 @@
+import type {AsyncDecodeOptions, AsyncEncodeOptions, EncodeProgress, NodeWorkerLike, RawMapData, WorkerEvent, WorkerLike} from "../MapCodec";
+import type {WorkerRequest, WorkerResponse} from "./WorkerProtocol";
+import {CodecException} from "./util/CodecException";
+import {deserializeError} from "./WorkerProtocol";
+
+class WorkerClient {
+	private factory: (() => WorkerLike) | null = null;
+	/** Workers without a running request, reused before new ones are created */
+	private readonly idle: WorkerLike[] = [];
+	private nextId: number = 0;
+
+	/**
+	 * Sets the function creating new workers, idle workers of the previous factory are terminated
+	 * @param factory function creating a worker that runs {@link serveMapWorker}
+	 */
+	setFactory(factory: () => WorkerLike): void {
+		for (const worker of this.idle) {
+			worker.terminate();
+		}
+		this.idle.length = 0;
+		this.factory = factory;
+	}
+
+	/**
+	 * Encodes a map in a worker
+	 *
+	 * If the tiles fill their whole buffer, the buffer is transferred and data.tiles is detached afterwards.
+	 * Tiles viewing part of a larger buffer are copied, so the rest of that buffer stays usable, shared buffers are never transferred.
+	 *
+	 * @param data map data to compress
+	 * @param options compression options, cancellation signal and progress listener
+	 * @returns binary data
+	 */
+	encode(data: RawMapData, options: AsyncEncodeOptions): Promise<Uint8Array> {
+		const {signal, onProgress, ...encodeOptions} = options;
+		const {tiles} = data;
+		const partial = tiles.buffer instanceof ArrayBuffer && (tiles.byteOffset !== 0 || tiles.byteLength !== tiles.buffer.byteLength);
+		const request = partial ? {...data, tiles: tiles.slice()} : data;
+		const transfer = request.tiles.buffer instanceof ArrayBuffer ? [request.tiles.buffer] : [];
+		return this.run({id: this.nextId++, type: "encode", data: request, options: encodeOptions, progress: !!onProgress}, transfer, signal, onProgress) as Promise<Uint8Array>;
+	}
+
+	/**
+	 * Decodes a map in a worker, the data is copied so it stays usable
+	 * @param data binary data
+	 * @param options cancellation signal
+	 * @returns raw map data
+	 */
+	decode(data: Uint8Array, options: AsyncDecodeOptions): Promise<RawMapData> {
+		return this.run({id: this.nextId++, type: "decode", data}, [], options.signal) as Promise<RawMapData>;
+	}
+
+	/**
+	 * Sends a request to an idle or new worker and waits for its result
+	 *
+	 * Workers can't be interrupted while they are busy, so cancelling a request terminates its worker.
+	 *
+	 * @param request request to send
+	 * @param transfer buffers to transfer instead of copying
+	 * @param signal optional cancellation signal
+	 * @param onProgress optional progress listener
+	 * @returns result of the request
+	 * @private
+	 */
+	private run(request: WorkerRequest, transfer: ArrayBuffer[], signal?: AbortSignal, onProgress?: (progress: EncodeProgress) => void): Promise<Uint8Array | RawMapData> {
+		if (!this.factory) {
+			return Promise.reject(new CodecException("No map worker configured, call setMapWorkerFactory first"));
+		}
+		if (signal?.aborted) {
+			return Promise.reject(signal.reason);
+		}
+		const worker = this.idle.pop() ?? this.factory();
+		return new Promise((resolve, reject) => {
+			const finish = (reusable: boolean) => {
+				worker.removeEventListener("message", onMessage);
+				worker.removeEventListener("error", onError);
+				signal?.removeEventListener("abort", onAbort);
+				if (reusable) {
+					this.idle.push(worker);
+				} else {
+					worker.terminate();
+				}
+			};
+			const onMessage = (event: WorkerEvent) => {
+				const response = event.data as WorkerResponse;
+				if (response.id !== request.id) return;
+				if (response.type === "progress") {
+					onProgress?.(response.progress);
+				} else if (response.type === "result") {
+					finish(true);
+					resolve(response.result);
+				} else {
+					finish(true);
+					reject(deserializeError(response.error));
+				}
+			};
+			const onError = (event: WorkerEvent) => {
+				finish(false);
+				reject(new CodecException(`Map worker failed: ${event.message}`));
+			};
+			const onAbort = () => {
+				finish(false);
+				reject(signal?.reason);
+			};
+			worker.addEventListener("message", onMessage);
+			worker.addEventListener("error", onError);
+			signal?.addEventListener("abort", onAbort);
+			worker.postMessage(request, transfer);
+		});
+	}
+}
+
+/**
+ * Adapts a node worker_threads Worker to the event interface of web workers
+ *
+ * The worker only keeps the process alive while a request is running, idle workers don't prevent exiting.
+ *
+ * @param worker node worker running {@link serveMapWorker}
+ * @returns adapted worker
+ */
+export function wrapNodeWorker(worker: NodeWorkerLike): WorkerLike {
+	const listeners = new Map<(event: WorkerEvent) => void, (value: unknown) => void>();
+	worker.unref();
+	return {
+		postMessage: (message, transfer) => worker.postMessage(message, transfer),
+		addEventListener: (type, listener) => {
+			const wrapped = type === "message" ? (data: unknown) => listener({data}) : (error: unknown) => listener({message: error instanceof Error ? error.message : String(error)});
+			listeners.set(listener, wrapped);
+			worker.on(type, wrapped);
+			worker.ref();
+		},
+		removeEventListener: (type, listener) => {
+			const wrapped = listeners.get(listener);
+			if (wrapped) {
+				worker.off(type, wrapped);
+				listeners.delete(listener);
+			}
+			if (listeners.size === 0) {
+				worker.unref();
+			}
+		},
+		terminate: () => void worker.terminate()
+	};
+}
+
+export const workerClient = new WorkerClient();
\ No newline at end of file
@@ -0,0 +1,42 @@
+import type {EncodeOptions, RawMapData, WorkerScopeLike} from "../MapCodec";
+import type {WorkerRequest, WorkerResponse} from "./WorkerProtocol";
+import {serializeError} from "./WorkerProtocol";
+
+class WorkerHost {
+	/**
+	 * Answers encode and decode requests sent by {@link WorkerClient}
+	 *
+	 * Requests are handled one at a time, since encoding and decoding are synchronous.
+	 *
+	 * @param scope worker scope to listen on
+	 * @param encode encoding function
+	 * @param decode decoding function
+	 */
+	serve(scope: WorkerScopeLike, encode: (data: RawMapData, options: EncodeOptions) => Uint8Array, decode: (data: Uint8Array) => RawMapData): void {
+		const handle = (request: WorkerRequest) => {
+			const send = (response: WorkerResponse, transfer: ArrayBuffer[] = []) => scope.postMessage(response, transfer);
+			try {
+				if (request.type === "encode") {
+					const options: EncodeOptions = {...request.options};
+					if (request.progress) {
+						options.onProgress = progress => send({id: request.id, type: "progress", progress});
+					}
+					const result = encode(request.data, options);
+					send({id: request.id, type: "result", result}, [result.buffer as ArrayBuffer]);
+				} else {
+					const result = decode(request.data);
+					send({id: request.id, type: "result", result}, [result.tiles.buffer as ArrayBuffer]);
+				}
+			} catch (error) {
+				send({id: request.id, type: "error", error: serializeError(error)});
+			}
+		};
+		if ("on" in scope) {
+			scope.on("message", value => handle(value as WorkerRequest));
+		} else {
+			scope.addEventListener("message", event => handle(event.data as WorkerRequest));
+		}
+	}
+}
+
+export const workerHost = new WorkerHost();
\ No newline at end of file
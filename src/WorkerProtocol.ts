@@ -0,0 +1,77 @@
+import type {EncodeOptions, EncodeProgress, RawMapData, ValidationIssue} from "../MapCodec";
+import {ChecksumException, CodecException, PatchMismatchException, TruncatedDataException, TypeIndexException, UnknownPaletteException, UnsupportedVersionException, ValidationException} from "./util/CodecException";
+
+/** Exceptions that keep their class across the worker boundary, most specific first */
+const EXCEPTIONS: {[name: string]: new (message: string) => CodecException} = {
+	ChecksumException,
+	TruncatedDataException,
+	UnsupportedVersionException,
+	TypeIndexException,
+	PatchMismatchException,
+	UnknownPaletteException,
+	CodecException
+};
+
+/**
+ * Converts an exception into plain data, since thrown classes don't survive structured cloning
+ * @param error thrown value
+ * @returns serialized exception
+ */
+export function serializeError(error: unknown): SerializedError {
+	const message = error instanceof Error ? error.message : String(error);
+	if (error instanceof ValidationException) {
+		return {name: "ValidationException", message, issues: error.issues};
+	}
+	for (const name in EXCEPTIONS) {
+		if (error instanceof EXCEPTIONS[name]) {
+			return {name, message};
+		}
+	}
+	return {name: "Error", message};
+}
+
+/**
+ * Recreates an exception serialized by {@link serializeError}
+ * @param error serialized exception
+ * @returns exception of the original class
+ */
+export function deserializeError(error: SerializedError): Error {
+	if (error.name === "ValidationException") {
+		return new ValidationException(error.issues ?? []);
+	}
+	const exception = EXCEPTIONS[error.name];
+	return exception ? new exception(error.message) : new Error(error.message);
+}
+
+export type WorkerRequest = {
+	id: number;
+	type: "encode";
+	data: RawMapData;
+	options: Omit<EncodeOptions, "onProgress">;
+	/** Whether progress messages should be sent */
+	progress: boolean;
+} | {
+	id: number;
+	type: "decode";
+	data: Uint8Array;
+};
+
+export type WorkerResponse = {
+	id: number;
+	type: "progress";
+	progress: EncodeProgress;
+} | {
+	id: number;
+	type: "result";
+	result: Uint8Array | RawMapData;
+} | {
+	id: number;
+	type: "error";
+	error: SerializedError;
+};
+
+export type SerializedError = {
+	name: string;
+	message: string;
+	issues?: ValidationIssue[];
+};
\ No newline at end of file
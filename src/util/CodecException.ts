@@ -1 +1,34 @@
-export class CodecException extends Error {}
\ No newline at end of file
+import type {ValidationIssue} from "../../MapCodec";
+
+export class CodecException extends Error {}
+
+/** Thrown if the stored checksum doesn't match the map data */
+export class ChecksumException extends CodecException {}
+
+/** Thrown if the map data ends before all expected data was read */
+export class TruncatedDataException extends CodecException {}
+
+/** Thrown if the map or one of its blocks uses a format version this decoder doesn't know */
+export class UnsupportedVersionException extends CodecException {}
+
+/** Thrown if a line references a tile type that is not in the type map */
+export class TypeIndexException extends CodecException {}
+
+/** Thrown if a patch is applied to a different map than the one it was created from */
+export class PatchMismatchException extends CodecException {}
+
+/** Thrown if a map references a palette that is not registered or differs from the registered one */
+export class UnknownPaletteException extends CodecException {}
+
+/** Thrown if map data fails validation before encoding */
+export class ValidationException extends CodecException {
+	readonly issues: ValidationIssue[];
+
+	/**
+	 * @param issues validation errors that prevented encoding
+	 */
+	constructor(issues: ValidationIssue[]) {
+		super(`Invalid map data:\n${issues.map(issue => ` - ${issue.path}: ${issue.message}`).join("\n")}`);
+		this.issues = issues;
+	}
+}
\ No newline at end of file
@@ -0,0 +1,33 @@
+const TABLE = new Uint32Array(256);
+for (let i = 0; i < 256; i++) {
+	let value = i;
+	for (let j = 0; j < 8; j++) {
+		value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+	}
+	TABLE[i] = value;
+}
+
+export class Crc32 {
+	/**
+	 * Calculates the CRC32 (IEEE) checksum of a buffer
+	 * @param data data to checksum
+	 * @returns unsigned 32-bit checksum
+	 */
+	static compute(data: Uint8Array): number {
+		return this.update(0, data);
+	}
+
+	/**
+	 * Continues a checksum with more data, allows checksumming data that arrives in parts
+	 * @param crc checksum of the previous data, 0 for the first part
+	 * @param data data to add
+	 * @returns unsigned 32-bit checksum of all data so far
+	 */
+	static update(crc: number, data: Uint8Array): number {
+		let value = ~crc;
+		for (let i = 0; i < data.length; i++) {
+			value = TABLE[(value ^ data[i]) & 0xff] ^ (value >>> 8);
+		}
+		return ~value >>> 0;
+	}
+}
\ No newline at end of file
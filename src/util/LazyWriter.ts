@@ -1,3 +1,5 @@
+import {CodecException} from "./CodecException";
+
 export class LazyWriter {
 	private length: number = 0;
 	private data: (() => void)[] = [];
@@ -18,11 +20,13 @@ export class LazyWriter {
 	/**
 	 * Queues a number of bits to be written to the buffer
 	 * @param length number of bits to write, must be less than or equal to 32
-	 * @param value value to write, only the lowest length bits will be written
+	 * @param value value to write, must be a non-negative integer that fits into length bits
 	 * @throws Error if length is greater than 32
+	 * @throws CodecException if the value doesn't fit into length bits
 	 */
 	writeBits(length: number, value: number) {
 		if (length > 32) throw new Error("Cannot write more than 32 bits at a time");
+		if (!Number.isInteger(value) || value < 0 || value >= 2 ** length) throw new CodecException(`Value ${value} doesn't fit into ${length} bits`);
 		this.data.push(() => {
 			this.actuallyWriteBits(length, value);
 		});
@@ -30,19 +34,29 @@ export class LazyWriter {
 	}
 
 	/**
-	 * Queues a truncated string to be written to the buffer
-	 * @param maxLength length to truncate the string to
-	 * @param value string to write (utf-8), any characters beyond maxLength will be ignored
+	 * Queues a string to be written to the buffer, prefixed with its byte length
+	 * @param maxLength maximum length of the string in bytes
+	 * @param value string to write (utf-8)
+	 * @throws CodecException if the encoded string is longer than maxLength bytes
 	 */
 	writeString(maxLength: number, value: string) {
-		const max = Math.min(maxLength, value.length);
-		this.data.push(() => {
-			this.actuallyWriteBits(16, max);
-			for (let i = 0; i < max; i++) {
-				this.actuallyWriteBits(8, value.charCodeAt(i));
-			}
-		});
-		this.length += 16 + 8 * max;
+		const bytes = new TextEncoder().encode(value);
+		if (bytes.length > maxLength) {
+			throw new CodecException(`String "${value}" is ${bytes.length} bytes long, at most ${maxLength} bytes are allowed`);
+		}
+		this.writeBits(Math.ceil(Math.log2(maxLength + 1)), bytes.length);
+		this.writeBytes(bytes);
+	}
+
+	/**
+	 * Queues a non-negative number to be written with a 5-bit length prefix, small numbers only take a few bits
+	 * @param value value to write, less than 2^31
+	 * @throws CodecException if the value is negative, not an integer or too large
+	 */
+	writeNumber(value: number) {
+		const length = value === 0 ? 0 : Math.floor(Math.log2(value)) + 1;
+		this.writeBits(5, length);
+		this.writeBits(length, value);
 	}
 
 	/**
@@ -56,6 +70,19 @@ export class LazyWriter {
 		this.length += 1;
 	}
 
+	/**
+	 * Queues raw bytes to be written to the buffer
+	 * @param value bytes to write
+	 */
+	writeBytes(value: Uint8Array) {
+		this.data.push(() => {
+			for (let i = 0; i < value.length; i++) {
+				this.actuallyWriteBits(8, value[i]);
+			}
+		});
+		this.length += 8 * value.length;
+	}
+
 	/**
 	 * @returns buffer containing queued data
 	 */
@@ -0,0 +1,32 @@
+/**
+ * Seeded pseudo random numbers (mulberry32)
+ *
+ * Only 32-bit integer operations are used, so every JavaScript engine produces the same sequence.
+ */
+export class Random {
+	private state: number;
+
+	/**
+	 * @param seed any integer, only the lower 32 bits are used
+	 */
+	constructor(seed: number) {
+		this.state = seed | 0;
+	}
+
+	/**
+	 * @returns next unsigned 32-bit integer
+	 */
+	nextInt(): number {
+		let value = this.state = (this.state + 0x6d2b79f5) | 0;
+		value = Math.imul(value ^ (value >>> 15), value | 1);
+		value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+		return (value ^ (value >>> 14)) >>> 0;
+	}
+
+	/**
+	 * @returns next number in [0, 1)
+	 */
+	next(): number {
+		return this.nextInt() / 4294967296;
+	}
+}
\ No newline at end of file
@@ -0,0 +1,167 @@
+import {TruncatedDataException} from "./CodecException";
+
+// Probabilities are 11-bit fixed point, adapting by 1/32 of the error after each bit
+const PROBABILITY_BITS = 11;
+const ADAPTATION_SHIFT = 5;
+const TOP = 2 ** 24;
+
+/**
+ * Creates adaptive probabilities, all starting at 50%
+ * @param count number of probabilities
+ * @returns probability array for {@link RangeEncoder} and {@link RangeDecoder}
+ */
+export function createProbabilities(count: number): Uint16Array {
+	return new Uint16Array(count).fill(1 << PROBABILITY_BITS - 1);
+}
+
+/**
+ * Adaptive binary range encoder (LZMA style)
+ */
+export class RangeEncoder {
+	private readonly output: number[] = [];
+	private low: number = 0;
+	private range: number = 0xffffffff;
+	private cache: number = 0;
+	private cacheSize: number = 1;
+
+	/**
+	 * Encodes a single bit and adapts its probability
+	 * @param probabilities probability array
+	 * @param index index of the probability to use
+	 * @param bit bit to encode
+	 */
+	encodeBit(probabilities: Uint16Array, index: number, bit: number): void {
+		const bound = (this.range >>> PROBABILITY_BITS) * probabilities[index];
+		if (bit === 0) {
+			this.range = bound;
+			probabilities[index] += (1 << PROBABILITY_BITS) - probabilities[index] >>> ADAPTATION_SHIFT;
+		} else {
+			this.low += bound;
+			this.range -= bound;
+			probabilities[index] -= probabilities[index] >>> ADAPTATION_SHIFT;
+		}
+		while (this.range < TOP) {
+			this.range = this.range * 256 >>> 0;
+			this.shiftLow();
+		}
+	}
+
+	/**
+	 * Encodes a number most significant bit first, each bit using the bits before it as context
+	 * @param probabilities probability array with at least 2^length entries
+	 * @param length number of bits
+	 * @param value value to encode
+	 */
+	encodeTree(probabilities: Uint16Array, length: number, value: number): void {
+		let node = 1;
+		for (let i = length - 1; i >= 0; i--) {
+			const bit = (value >>> i) & 1;
+			this.encodeBit(probabilities, node, bit);
+			node = node << 1 | bit;
+		}
+	}
+
+	/**
+	 * Flushes the encoder
+	 * @returns encoded bytes
+	 */
+	finish(): Uint8Array {
+		for (let i = 0; i < 5; i++) {
+			this.shiftLow();
+		}
+		return new Uint8Array(this.output);
+	}
+
+	/**
+	 * Moves the top byte of low to the output, propagating carries into pending bytes
+	 * @private
+	 */
+	private shiftLow() {
+		if (this.low < 0xff000000 || this.low >= 2 ** 32) {
+			const carry = this.low >= 2 ** 32 ? 1 : 0;
+			let temp = this.cache;
+			do {
+				this.output.push((temp + carry) & 0xff);
+				temp = 0xff;
+			} while (--this.cacheSize !== 0);
+			this.cache = Math.floor(this.low / TOP) & 0xff;
+		}
+		this.cacheSize++;
+		this.low = this.low % TOP * 256;
+	}
+}
+
+/**
+ * Decoder for data written by {@link RangeEncoder}
+ */
+export class RangeDecoder {
+	private readonly input: Uint8Array;
+	private position: number = 0;
+	private range: number = 0xffffffff;
+	private code: number = 0;
+
+	/**
+	 * @param input encoded bytes
+	 * @throws TruncatedDataException if the input is too short
+	 */
+	constructor(input: Uint8Array) {
+		this.input = input;
+		for (let i = 0; i < 5; i++) {
+			this.code = (this.code * 256 + this.nextByte()) >>> 0;
+		}
+	}
+
+	/**
+	 * Decodes a single bit and adapts its probability
+	 * @param probabilities probability array, must match the one used for encoding
+	 * @param index index of the probability to use
+	 * @returns decoded bit
+	 * @throws TruncatedDataException if the input ends early
+	 */
+	decodeBit(probabilities: Uint16Array, index: number): number {
+		const bound = (this.range >>> PROBABILITY_BITS) * probabilities[index];
+		let bit;
+		if (this.code < bound) {
+			this.range = bound;
+			probabilities[index] += (1 << PROBABILITY_BITS) - probabilities[index] >>> ADAPTATION_SHIFT;
+			bit = 0;
+		} else {
+			this.code -= bound;
+			this.range -= bound;
+			probabilities[index] -= probabilities[index] >>> ADAPTATION_SHIFT;
+			bit = 1;
+		}
+		while (this.range < TOP) {
+			this.range = this.range * 256 >>> 0;
+			this.code = (this.code * 256 + this.nextByte()) >>> 0;
+		}
+		return bit;
+	}
+
+	/**
+	 * Decodes a number written by {@link RangeEncoder.encodeTree}
+	 * @param probabilities probability array with at least 2^length entries
+	 * @param length number of bits
+	 * @returns decoded value
+	 * @throws TruncatedDataException if the input ends early
+	 */
+	decodeTree(probabilities: Uint16Array, length: number): number {
+		let node = 1;
+		for (let i = 0; i < length; i++) {
+			node = node << 1 | this.decodeBit(probabilities, node);
+		}
+		return node - (1 << length);
+	}
+
+	/**
+	 * @returns next input byte
+	 * @throws TruncatedDataException if the input ends early
+	 * @private
+	 */
+	private nextByte(): number {
+		if (this.position >= this.input.length) {
+			throw new TruncatedDataException("Not enough data to read, the entropy coded lines are truncated");
+		}
+		return this.input[this.position++];
+	}
+}
\ No newline at end of file
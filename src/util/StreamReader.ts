@@ -1,6 +1,10 @@
+import {CodecException, TruncatedDataException} from "./CodecException";
+
 export class StreamReader {
-	private readonly buffer: Uint8Array;
-	private offset: number = 0;
+	protected buffer: Uint8Array;
+	protected offset: number = 0;
+	/** Whether strings use the pre-version 3 format of 16-bit lengths and 8-bit characters */
+	legacyStrings: boolean = false;
 
 	/**
 	 * Creates a new reader for the given buffer
@@ -14,11 +18,12 @@ export class StreamReader {
 	 * Reads a number of bits from the buffer
 	 * @param length number of bits to read, must be less than or equal to 32
 	 * @returns number of value read
-	 * @throws Error if length is greater than 32 or there is not enough data to read
+	 * @throws Error if length is greater than 32
+	 * @throws TruncatedDataException if there is not enough data to read
 	 */
 	readBits(length: number): number {
 		if (length > 32) throw new Error("Cannot read more than 32 bits at a time");
-		if (this.offset + length > this.buffer.length * 8) throw new Error("Not enough data to read");
+		if (this.offset + length > this.buffer.length * 8) throw new TruncatedDataException("Not enough data to read, the map is truncated");
 
 		let value = 0;
 		for (let i = this.offset; i < this.offset + length; i++) {
@@ -29,10 +34,53 @@ export class StreamReader {
 	}
 
 	/**
-	 * @param maxLength maximum length of the string
+	 * Skips a number of bits without reading them
+	 * @param length number of bits to skip
+	 * @throws TruncatedDataException if there is not enough data to skip
+	 */
+	skipBits(length: number): void {
+		if (this.offset + length > this.buffer.length * 8) throw new TruncatedDataException("Not enough data to read, the map is truncated");
+		this.offset += length;
+	}
+
+	/**
+	 * Reads a number written by {@link LazyWriter.writeNumber}
+	 * @returns number read from the buffer
+	 * @throws TruncatedDataException if there is not enough data to read
+	 */
+	readNumber(): number {
+		return this.readBits(this.readBits(5));
+	}
+
+	/**
+	 * @param maxLength maximum length of the string in bytes
 	 * @returns string read from the buffer (utf-8)
+	 * @throws CodecException if the string is too long or not valid utf-8
 	 */
 	readString(maxLength: number): string {
+		if (this.legacyStrings) {
+			return this.readLegacyString(maxLength);
+		}
+
+		const length = this.readBits(Math.ceil(Math.log2(maxLength + 1)));
+		if (length > maxLength) {
+			throw new CodecException(`String is ${length} bytes long, at most ${maxLength} bytes are allowed`);
+		}
+		try {
+			return new TextDecoder("utf-8", {fatal: true}).decode(this.readBytes(length));
+		} catch (e) {
+			if (e instanceof CodecException) throw e;
+			throw new CodecException("String is not valid utf-8, the map data is corrupted");
+		}
+	}
+
+	/**
+	 * Reads a string in the format used before version 3, only latin-1 characters survive this format
+	 * @param maxLength maximum length of the string
+	 * @returns string read from the buffer
+	 * @private
+	 */
+	private readLegacyString(maxLength: number): string {
 		const max = Math.min(maxLength, this.readBits(16));
 		let value = "";
 		for (let i = 0; i < max; i++) {
@@ -41,6 +89,20 @@ export class StreamReader {
 		return value;
 	}
 
+	/**
+	 * @param length number of bytes to read
+	 * @returns bytes read from the buffer
+	 * @throws TruncatedDataException if there is not enough data to read
+	 */
+	readBytes(length: number): Uint8Array {
+		if (this.offset + length * 8 > this.buffer.length * 8) throw new TruncatedDataException("Not enough data to read, the map is truncated");
+		const value = new Uint8Array(length);
+		for (let i = 0; i < length; i++) {
+			value[i] = this.readBits(8);
+		}
+		return value;
+	}
+
 	/**
 	 * @returns boolean read from the buffer
 	 */
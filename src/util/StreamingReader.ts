@@ -0,0 +1,102 @@
+import {StreamReader} from "./StreamReader";
+import {Crc32} from "./Crc32";
+import {ChecksumException, TruncatedDataException} from "./CodecException";
+
+/**
+ * Reader for data that arrives in parts
+ *
+ * Reads behave like {@link StreamReader}, throwing a TruncatedDataException if the data received so far is not enough.
+ * Callers can then rewind to a previous position, pull more data and try again.
+ * Fully read bytes are dropped when pulling, so only a small window of the data is kept in memory.
+ */
+export class StreamingReader extends StreamReader {
+	private readonly source: ReadableStreamDefaultReader<Uint8Array> | null;
+	private checksum: number = 0;
+	/** Whether all data has been received */
+	done: boolean;
+
+	/**
+	 * @param source complete buffer or stream to read from
+	 */
+	constructor(source: Uint8Array | ReadableStream<Uint8Array>) {
+		super(source instanceof Uint8Array ? source : new Uint8Array(0));
+		this.source = source instanceof Uint8Array ? null : source.getReader();
+		this.done = this.source === null;
+	}
+
+	/**
+	 * Current position in bits, only positions after the last pull can be restored
+	 */
+	get position(): number {
+		return this.offset;
+	}
+
+	set position(value: number) {
+		this.offset = value;
+	}
+
+	/**
+	 * @returns number of received bytes that have not been read yet
+	 */
+	get remaining(): number {
+		return this.buffer.length - Math.ceil(this.offset / 8);
+	}
+
+	/**
+	 * Receives the next part of the data, dropping all bytes before the current position
+	 * @throws TruncatedDataException if all data has already been received
+	 */
+	async pull(): Promise<void> {
+		if (this.done || !this.source) {
+			throw new TruncatedDataException("Not enough data to read, the map is truncated");
+		}
+		const {done, value} = await this.source.read();
+		const consumed = this.offset >>> 3;
+		this.checksum = Crc32.update(this.checksum, this.buffer.subarray(0, consumed));
+		const rest = this.buffer.subarray(consumed);
+		const buffer = new Uint8Array(rest.length + (value?.length ?? 0));
+		buffer.set(rest);
+		if (value) buffer.set(value, rest.length);
+		this.buffer = buffer;
+		this.offset -= consumed * 8;
+		this.done = done;
+	}
+
+	/**
+	 * Runs a read, pulling more data and retrying from the same position whenever the data ends early
+	 * @param read read to run, must not keep state between attempts
+	 * @returns result of the read
+	 * @throws TruncatedDataException if the read fails after all data has been received
+	 */
+	async retry<T>(read: () => T): Promise<T> {
+		for (;;) {
+			const start = this.offset;
+			try {
+				return read();
+			} catch (e) {
+				if (!(e instanceof TruncatedDataException) || this.done) throw e;
+				this.offset = start;
+				await this.pull();
+			}
+		}
+	}
+
+	/**
+	 * Receives all remaining data and checks it against the trailing 32-bit little-endian CRC32
+	 * @throws ChecksumException if the checksum doesn't match
+	 * @throws TruncatedDataException if there is no room for a checksum
+	 */
+	async verifyChecksum(): Promise<void> {
+		while (!this.done) {
+			await this.pull();
+		}
+		if (this.buffer.length < 4) {
+			throw new TruncatedDataException("Map data is too short to contain a checksum");
+		}
+		const payload = this.buffer.subarray(0, this.buffer.length - 4);
+		const expected = new DataView(this.buffer.buffer, this.buffer.byteOffset + payload.length, 4).getUint32(0, true);
+		if (Crc32.update(this.checksum, payload) !== expected) {
+			throw new ChecksumException("Checksum mismatch, the map data is corrupted or truncated");
+		}
+	}
+}
\ No newline at end of file
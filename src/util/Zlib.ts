@@ -0,0 +1,478 @@
+import {CodecException, TruncatedDataException} from "./CodecException";
+
+const LENGTH_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+const DISTANCE_BASE = [1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577];
+const DISTANCE_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+const WINDOW_SIZE = 32768;
+const MAX_MATCH = 258;
+/** Number of earlier positions checked for a match, trades speed for size */
+const MAX_CHAIN = 64;
+
+// Fixed literal/length code of the deflate specification, stored bit-reversed for LSB-first output
+const FIXED_LENGTHS = new Uint8Array(288);
+FIXED_LENGTHS.fill(8, 0, 144).fill(9, 144, 256).fill(7, 256, 280).fill(8, 280, 288);
+const FIXED_CODES = canonicalCodes(FIXED_LENGTHS);
+const FIXED_DISTANCE_LENGTHS = new Uint8Array(30).fill(5);
+const FIXED_DISTANCE_CODES = canonicalCodes(FIXED_DISTANCE_LENGTHS);
+
+/**
+ * Zlib streams (RFC 1950/1951) without platform dependencies, used for PNG image data
+ */
+export class Zlib {
+	/**
+	 * Decompresses a zlib stream
+	 * @param data compressed data including the zlib header and checksum
+	 * @returns decompressed data
+	 * @throws CodecException if the stream is invalid or its checksum doesn't match
+	 * @throws TruncatedDataException if the stream ends unexpectedly
+	 */
+	static inflate(data: Uint8Array): Uint8Array {
+		if (data.length < 2 || (data[0] & 0x0f) !== 8 || (data[0] << 8 | data[1]) % 31 !== 0 || data[1] & 0x20) {
+			throw new CodecException("Invalid zlib header");
+		}
+		const input = new BitInput(data, 2);
+		const output = new ByteOutput();
+		let last = false;
+		while (!last) {
+			last = input.readBits(1) === 1;
+			const type = input.readBits(2);
+			if (type === 0) {
+				this.inflateStored(input, output);
+			} else if (type === 1) {
+				this.inflateBlock(input, output, buildTable(FIXED_LENGTHS), buildTable(FIXED_DISTANCE_LENGTHS));
+			} else if (type === 2) {
+				const [literals, distances] = this.readDynamicTables(input);
+				this.inflateBlock(input, output, literals, distances);
+			} else {
+				throw new CodecException("Invalid deflate block type");
+			}
+		}
+
+		const result = output.finish();
+		input.alignToByte();
+		let checksum = 0;
+		for (let i = 0; i < 4; i++) {
+			checksum = (checksum << 8 | input.readBits(8)) >>> 0;
+		}
+		if (checksum !== this.adler32(result)) {
+			throw new CodecException("Compressed data is corrupted, the checksum does not match");
+		}
+		return result;
+	}
+
+	/**
+	 * Compresses data into a zlib stream, using LZ77 and the fixed Huffman code
+	 * @param data data to compress
+	 * @returns compressed data including the zlib header and checksum
+	 */
+	static deflate(data: Uint8Array): Uint8Array {
+		const output = new BitOutput();
+		output.writeBits(8, 0x78); // deflate with a 32 KiB window
+		output.writeBits(8, 0x01); // no dictionary, header checksum
+		output.writeBits(1, 1); // final block
+		output.writeBits(2, 1); // fixed Huffman code
+
+		const head = new Int32Array(WINDOW_SIZE).fill(-1);
+		const previous = new Int32Array(WINDOW_SIZE);
+		const insert = (position: number) => {
+			const hash = this.hash(data, position);
+			previous[position & WINDOW_SIZE - 1] = head[hash];
+			head[hash] = position;
+		};
+
+		let position = 0;
+		while (position < data.length) {
+			let bestLength = 0;
+			let bestDistance = 0;
+			if (position + 3 <= data.length) {
+				const maxLength = Math.min(MAX_MATCH, data.length - position);
+				let candidate = head[this.hash(data, position)];
+				for (let chain = 0; chain < MAX_CHAIN && candidate >= 0 && position - candidate <= WINDOW_SIZE; chain++) {
+					let length = 0;
+					while (length < maxLength && data[candidate + length] === data[position + length]) length++;
+					if (length > bestLength) {
+						bestLength = length;
+						bestDistance = position - candidate;
+						if (length === maxLength) break;
+					}
+					const next = previous[candidate & WINDOW_SIZE - 1];
+					if (next >= candidate) break; // slot was overwritten by a newer position
+					candidate = next;
+				}
+			}
+
+			if (bestLength >= 3) {
+				this.writeMatch(output, bestLength, bestDistance);
+				for (const end = position + bestLength; position < end; position++) {
+					if (position + 3 <= data.length) insert(position);
+				}
+			} else {
+				output.writeBits(FIXED_LENGTHS[data[position]], FIXED_CODES[data[position]]);
+				if (position + 3 <= data.length) insert(position);
+				position++;
+			}
+		}
+		output.writeBits(FIXED_LENGTHS[256], FIXED_CODES[256]);
+		output.alignToByte();
+
+		const checksum = this.adler32(data);
+		for (let shift = 24; shift >= 0; shift -= 8) {
+			output.writeBits(8, checksum >>> shift & 0xff);
+		}
+		return output.finish();
+	}
+
+	/**
+	 * Copies an uncompressed block
+	 * @param input input positioned after the block type
+	 * @param output output to append to
+	 * @throws CodecException if the length check fails
+	 * @private
+	 */
+	private static inflateStored(input: BitInput, output: ByteOutput): void {
+		input.alignToByte();
+		const length = input.readBits(16);
+		if ((length ^ 0xffff) !== input.readBits(16)) {
+			throw new CodecException("Invalid stored block length");
+		}
+		for (let i = 0; i < length; i++) {
+			output.push(input.readBits(8));
+		}
+	}
+
+	/**
+	 * Decodes a Huffman coded block
+	 * @param input input positioned after the block header
+	 * @param output output to append to
+	 * @param literals decoding table of the literal/length code
+	 * @param distances decoding table of the distance code
+	 * @throws CodecException if the block references data before the start of the output
+	 * @private
+	 */
+	private static inflateBlock(input: BitInput, output: ByteOutput, literals: HuffmanTable, distances: HuffmanTable): void {
+		while (true) {
+			const symbol = input.readSymbol(literals);
+			if (symbol < 256) {
+				output.push(symbol);
+			} else if (symbol === 256) {
+				return;
+			} else {
+				const lengthCode = symbol - 257;
+				if (lengthCode >= LENGTH_BASE.length) throw new CodecException("Invalid deflate length code");
+				const length = LENGTH_BASE[lengthCode] + input.readBits(LENGTH_EXTRA[lengthCode]);
+				const distanceCode = input.readSymbol(distances);
+				if (distanceCode >= DISTANCE_BASE.length) throw new CodecException("Invalid deflate distance code");
+				const distance = DISTANCE_BASE[distanceCode] + input.readBits(DISTANCE_EXTRA[distanceCode]);
+				output.copy(distance, length);
+			}
+		}
+	}
+
+	/**
+	 * Reads the code lengths of a dynamic Huffman block
+	 * @param input input positioned after the block type
+	 * @returns decoding tables of the literal/length and distance codes
+	 * @throws CodecException if the code lengths are invalid
+	 * @private
+	 */
+	private static readDynamicTables(input: BitInput): [HuffmanTable, HuffmanTable] {
+		const literalCount = input.readBits(5) + 257;
+		const distanceCount = input.readBits(5) + 1;
+		const codeLengthCount = input.readBits(4) + 4;
+
+		const codeLengths = new Uint8Array(19);
+		for (let i = 0; i < codeLengthCount; i++) {
+			codeLengths[CODE_LENGTH_ORDER[i]] = input.readBits(3);
+		}
+		const codeLengthTable = buildTable(codeLengths);
+
+		const lengths = new Uint8Array(literalCount + distanceCount);
+		for (let i = 0; i < lengths.length;) {
+			const symbol = input.readSymbol(codeLengthTable);
+			if (symbol < 16) {
+				lengths[i++] = symbol;
+				continue;
+			}
+			if (symbol === 16 && i === 0) throw new CodecException("Invalid deflate code lengths");
+			const value = symbol === 16 ? lengths[i - 1] : 0;
+			const repeat = symbol === 16 ? 3 + input.readBits(2) : symbol === 17 ? 3 + input.readBits(3) : 11 + input.readBits(7);
+			if (i + repeat > lengths.length) throw new CodecException("Invalid deflate code lengths");
+			lengths.fill(value, i, i + repeat);
+			i += repeat;
+		}
+		if (lengths[256] === 0) throw new CodecException("Deflate block has no end code");
+		return [buildTable(lengths.subarray(0, literalCount)), buildTable(lengths.subarray(literalCount))];
+	}
+
+	/**
+	 * Writes a match with the fixed Huffman code
+	 * @param output output to write to
+	 * @param length match length, 3-258
+	 * @param distance match distance, 1-32768
+	 * @private
+	 */
+	private static writeMatch(output: BitOutput, length: number, distance: number): void {
+		let lengthCode = LENGTH_BASE.length - 1;
+		while (LENGTH_BASE[lengthCode] > length) lengthCode--;
+		output.writeBits(FIXED_LENGTHS[257 + lengthCode], FIXED_CODES[257 + lengthCode]);
+		output.writeBits(LENGTH_EXTRA[lengthCode], length - LENGTH_BASE[lengthCode]);
+
+		let distanceCode = DISTANCE_BASE.length - 1;
+		while (DISTANCE_BASE[distanceCode] > distance) distanceCode--;
+		output.writeBits(5, FIXED_DISTANCE_CODES[distanceCode]);
+		output.writeBits(DISTANCE_EXTRA[distanceCode], distance - DISTANCE_BASE[distanceCode]);
+	}
+
+	/**
+	 * @param data data being compressed
+	 * @param position position of the first of three bytes
+	 * @returns hash of the three bytes, smaller than the window size
+	 * @private
+	 */
+	private static hash(data: Uint8Array, position: number): number {
+		return (data[position] << 10 ^ data[position + 1] << 5 ^ data[position + 2]) & WINDOW_SIZE - 1;
+	}
+
+	/**
+	 * @param data data to checksum
+	 * @returns unsigned 32-bit Adler-32 checksum
+	 * @private
+	 */
+	private static adler32(data: Uint8Array): number {
+		let a = 1;
+		let b = 0;
+		for (let start = 0; start < data.length; start += 5552) { // largest block that can't overflow before the modulo
+			const end = Math.min(start + 5552, data.length);
+			for (let i = start; i < end; i++) {
+				a += data[i];
+				b += a;
+			}
+			a %= 65521;
+			b %= 65521;
+		}
+		return (b << 16 | a) >>> 0;
+	}
+}
+
+/**
+ * @param lengths code length of each symbol, 0 for unused symbols
+ * @returns bit-reversed canonical code of each symbol
+ */
+function canonicalCodes(lengths: Uint8Array): Uint16Array {
+	const counts = new Uint16Array(16);
+	for (const length of lengths) counts[length]++;
+	counts[0] = 0;
+	const next = new Uint16Array(16);
+	for (let length = 1, code = 0; length < 16; length++) {
+		code = code + counts[length - 1] << 1;
+		next[length] = code;
+	}
+	const codes = new Uint16Array(lengths.length);
+	for (let symbol = 0; symbol < lengths.length; symbol++) {
+		const length = lengths[symbol];
+		if (length === 0) continue;
+		let code = next[length]++;
+		let reversed = 0;
+		for (let i = 0; i < length; i++, code >>>= 1) {
+			reversed = reversed << 1 | code & 1;
+		}
+		codes[symbol] = reversed;
+	}
+	return codes;
+}
+
+/**
+ * Builds a lookup table indexed by the next maxLength input bits
+ * @param lengths code length of each symbol, 0 for unused symbols
+ * @returns decoding table, entries are symbol << 4 | code length, 0 for invalid codes
+ * @throws CodecException if the code lengths are over-subscribed
+ */
+function buildTable(lengths: Uint8Array): HuffmanTable {
+	const maxLength = Math.max(1, ...lengths);
+	let available = 1 << maxLength;
+	for (const length of lengths) {
+		if (length > 0) available -= 1 << maxLength - length;
+	}
+	if (available < 0) throw new CodecException("Invalid deflate code lengths");
+
+	const codes = canonicalCodes(lengths);
+	const entries = new Uint32Array(1 << maxLength);
+	for (let symbol = 0; symbol < lengths.length; symbol++) {
+		const length = lengths[symbol];
+		for (let index = codes[symbol]; length > 0 && index < entries.length; index += 1 << length) {
+			entries[index] = symbol << 4 | length;
+		}
+	}
+	return {entries, maxLength};
+}
+
+type HuffmanTable = {
+	/** Indexed by the next maxLength bits, symbol << 4 | code length */
+	entries: Uint32Array;
+	maxLength: number;
+}
+
+/**
+ * Reads bits least significant first, as deflate stores them
+ */
+class BitInput {
+	private readonly data: Uint8Array;
+	private position: number;
+	private buffer: number = 0;
+	private count: number = 0;
+
+	/**
+	 * @param data data to read
+	 * @param position first byte to read
+	 */
+	constructor(data: Uint8Array, position: number) {
+		this.data = data;
+		this.position = position;
+	}
+
+	/**
+	 * @param length number of bits to read, at most 24
+	 * @returns value of the bits
+	 * @throws TruncatedDataException if the data ends before the bits
+	 */
+	readBits(length: number): number {
+		this.fill(length);
+		if (this.count < length) throw new TruncatedDataException("Compressed data is truncated");
+		const value = this.buffer & (1 << length) - 1;
+		this.buffer >>>= length;
+		this.count -= length;
+		return value;
+	}
+
+	/**
+	 * @param table decoding table of the code
+	 * @returns decoded symbol
+	 * @throws CodecException if the bits are not a valid code
+	 * @throws TruncatedDataException if the data ends inside the code
+	 */
+	readSymbol(table: HuffmanTable): number {
+		this.fill(table.maxLength);
+		const entry = table.entries[this.buffer & (1 << table.maxLength) - 1];
+		const length = entry & 15;
+		if (length === 0) throw new CodecException("Invalid deflate code");
+		if (length > this.count) throw new TruncatedDataException("Compressed data is truncated");
+		this.buffer >>>= length;
+		this.count -= length;
+		return entry >>> 4;
+	}
+
+	/**
+	 * Drops the bits remaining in the current byte
+	 */
+	alignToByte(): void {
+		const drop = this.count & 7;
+		this.buffer >>>= drop;
+		this.count -= drop;
+	}
+
+	/**
+	 * Loads whole bytes until at least length bits are buffered or the data ends
+	 * @param length number of bits needed
+	 * @private
+	 */
+	private fill(length: number): void {
+		while (this.count < length && this.position < this.data.length) {
+			this.buffer |= this.data[this.position++] << this.count;
+			this.count += 8;
+		}
+	}
+}
+
+/**
+ * Writes bits least significant first into a growing buffer
+ */
+class BitOutput {
+	private data: Uint8Array = new Uint8Array(1024);
+	private length: number = 0;
+	private buffer: number = 0;
+	private count: number = 0;
+
+	/**
+	 * @param length number of bits to write, at most 16
+	 * @param value value of the bits
+	 */
+	writeBits(length: number, value: number): void {
+		this.buffer |= value << this.count;
+		this.count += length;
+		while (this.count >= 8) {
+			if (this.length === this.data.length) {
+				const grown = new Uint8Array(this.data.length * 2);
+				grown.set(this.data);
+				this.data = grown;
+			}
+			this.data[this.length++] = this.buffer & 0xff;
+			this.buffer >>>= 8;
+			this.count -= 8;
+		}
+	}
+
+	/**
+	 * Pads the current byte with zero bits
+	 */
+	alignToByte(): void {
+		this.writeBits(-this.count & 7, 0);
+	}
+
+	/**
+	 * @returns written bytes
+	 */
+	finish(): Uint8Array {
+		return this.data.slice(0, this.length);
+	}
+}
+
+/**
+ * Growing buffer of decompressed bytes
+ */
+class ByteOutput {
+	private data: Uint8Array = new Uint8Array(65536);
+	private length: number = 0;
+
+	/**
+	 * @param value byte to append
+	 */
+	push(value: number): void {
+		this.reserve(1);
+		this.data[this.length++] = value;
+	}
+
+	/**
+	 * Appends earlier output, the copied range may overlap the appended bytes
+	 * @param distance how far back the copy starts
+	 * @param length number of bytes to copy
+	 * @throws CodecException if the copy starts before the output
+	 */
+	copy(distance: number, length: number): void {
+		if (distance > this.length) throw new CodecException("Deflate distance is too far back");
+		this.reserve(length);
+		for (let i = 0; i < length; i++, this.length++) {
+			this.data[this.length] = this.data[this.length - distance];
+		}
+	}
+
+	/**
+	 * @returns decompressed bytes
+	 */
+	finish(): Uint8Array {
+		return this.data.slice(0, this.length);
+	}
+
+	/**
+	 * @param count number of bytes about to be appended
+	 * @private
+	 */
+	private reserve(count: number): void {
+		if (this.length + count <= this.data.length) return;
+		const grown = new Uint8Array(Math.max(this.data.length * 2, this.length + count));
+		grown.set(this.data);
+		this.data = grown;
+	}
+}
\ No newline at end of file
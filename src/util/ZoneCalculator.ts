@@ -2,66 +2,74 @@ import type {RawMapData} from "../../MapCodec";
 
 export class ZoneCalculator {
 	/**
-	 * Builds zones from a map
-	 * @param data raw map data
-	 * @returns array of zones
+	 * Builds zones from a map or any other grid of values
+	 * @param data dimensions and values, one per tile
+	 * @param onProgress optional listener, called after each zone with the number of scanned tiles
+	 * @returns zones and the zone map
 	 */
-	static buildZones(data: RawMapData): TileZone[] {
-		const result: TileZone[] = [];
+	static buildZones(data: ValueGrid, onProgress?: (completed: number, total: number) => void): ZoneMap {
+		const zones: TileZone[] = [];
 
-		const zoneMap: Uint16Array = new Uint16Array(data.width * data.height);
+		const zoneMap = new Uint32Array(data.width * data.height);
+		const stack: number[] = [];
 
 		for (let i = 0; i < data.tiles.length; i++) {
 			if (!zoneMap[i]) {
-				result.push(this.exploreZone(i, data.tiles, data.width, zoneMap, result.length + 1));
+				zones.push(this.exploreZone(i, data.tiles, data.width, zoneMap, zones.length + 1, stack));
+				onProgress?.(i, data.tiles.length);
 			}
 		}
-		return result;
+		onProgress?.(data.tiles.length, data.tiles.length);
+		return {zones, zoneMap};
 	}
 
 	/**
 	 * Inserts a tile into the zone map
+	 *
+	 * Each tile is only expanded once, so border points are unique without keeping a lookup map
+	 *
 	 * @param tile index of the tile to check
 	 * @param tileTypes array of tile types
 	 * @param width width of the map
 	 * @param zoneMap zone map
 	 * @param zoneId id of the current zone
+	 * @param stack reusable stack, empty between calls
 	 * @private
 	 */
-	private static exploreZone(tile: number, tileTypes: Uint16Array, width: number, zoneMap: Uint16Array, zoneId: number): TileZone {
-		const stack: number[] = [tile];
+	private static exploreZone(tile: number, tileTypes: Uint16Array, width: number, zoneMap: Uint32Array, zoneId: number, stack: number[]): TileZone {
+		stack[0] = tile;
 		let stackPointer = 1;
 		const leftBorder = [];
-		const leftBorderMap = [];
 		const topBorder = [];
-		const topBorderMap = [];
 		while (stackPointer > 0) {
 			const current = stack[--stackPointer];
 			if (zoneMap[current]) continue;
 			zoneMap[current] = zoneId;
 			if (current % width !== 0 && tileTypes[current - 1] === tileTypes[current]) stack[stackPointer++] = current - 1;
-			else if (!leftBorderMap[current]) {
-				leftBorder.push(current);
-				leftBorderMap[current] = true;
-			}
+			else leftBorder.push(current);
 			if (current % width !== width - 1 && tileTypes[current + 1] === tileTypes[current]) stack[stackPointer++] = current + 1;
 			if (current >= width && tileTypes[current - width] === tileTypes[current]) stack[stackPointer++] = current - width;
-			else if (!topBorderMap[current]) {
-				topBorder.push(current);
-				topBorderMap[current] = true;
-			}
+			else topBorder.push(current);
 			if (current < tileTypes.length - width && tileTypes[current + width] === tileTypes[current]) stack[stackPointer++] = current + width;
 		}
-		return {id: tileTypes[tile], tileMap: zoneMap, leftBorder, leftBorderMap, topBorder, topBorderMap};
+		return {id: tileTypes[tile], leftBorder, topBorder};
 	}
 }
 
+/** Values of a map or of any other per-tile channel */
+export type ValueGrid = Pick<RawMapData, "width" | "height" | "tiles">;
+
+export type ZoneMap = {
+	zones: TileZone[];
+	/** Zone of each tile, zone ids are the index in zones + 1 */
+	zoneMap: Uint32Array;
+}
+
 export type TileZone = {
 	/** Tile type of the zone */
 	id: number;
-	tileMap: Uint16Array;
+	/** Tiles without a neighbor of the same zone to their left, in discovery order */
 	leftBorder: number[];
-	leftBorderMap: boolean[];
+	/** Tiles without a neighbor of the same zone above them, in discovery order */
 	topBorder: number[];
-	topBorderMap: boolean[];
 }
\ No newline at end of file
@@ -0,0 +1,95 @@
+import type {MapMetadata, MapSections, MapSummary, RawMapData} from "../../MapCodec";
+import type {StreamReader} from "../util/StreamReader";
+import type {VersionDecoder} from "./VersionDecoder";
+import type {PaletteRegistry} from "../PaletteRegistry";
+import {mapDecoder} from "../MapDecoder";
+import {layerCodec} from "../LayerCodec";
+import {extensionRegistry} from "../ExtensionRegistry";
+import {tileLayerCodec} from "../TileLayerCodec";
+
+/**
+ * Initial format: dimensions, compressed tiles and the trailing section flags
+ */
+export class Version0Decoder implements VersionDecoder {
+	readonly version: number = 0;
+	readonly hasChecksum: boolean = false;
+	/** Whether strings use the 8-bit character format from before version 3 */
+	protected readonly legacyStrings: boolean = true;
+	/** Whether the type map starts with the palette flag added in version 6 */
+	protected readonly hasPalettes: boolean = false;
+
+	/**
+	 * Version 0 maps have no checksum
+	 */
+	verify(data: Uint8Array): Uint8Array {
+		return data;
+	}
+
+	decode(reader: StreamReader, palettes: PaletteRegistry): RawMapData {
+		reader.legacyStrings = this.legacyStrings;
+		const width = reader.readBits(16);
+		const height = reader.readBits(16);
+		const metadata = this.readMetadata(reader);
+		const result = mapDecoder.readCompressed(reader, width, height, this.hasPalettes ? palettes : null);
+		if (metadata) {
+			result.metadata = metadata;
+		}
+		return Object.assign(result, this.readSections(reader, width, height));
+	}
+
+	inspect(reader: StreamReader, palettes: PaletteRegistry): MapSummary {
+		reader.legacyStrings = this.legacyStrings;
+		const width = reader.readBits(16);
+		const height = reader.readBits(16);
+		const metadata = this.readMetadata(reader) ?? {};
+		const {direction, entropyCoded, format, types, palette} = mapDecoder.readHeader(reader, this.hasPalettes ? palettes : null);
+		const lineCount = reader.readBits(32);
+		const summary: MapSummary = {
+			version: this.version, width, height, metadata, types,
+			fillDirection: direction ? "topToBottom" : "leftToRight",
+			lineCoding: entropyCoded ? "entropy" : "raw",
+			chunkSize: 1 << format.chunkBits,
+			maxLineLength: 1 << format.lengthBits,
+			lineCount
+		};
+		if (palette) {
+			summary.palette = {id: palette.id, version: palette.version};
+		}
+		return summary;
+	}
+
+	readSections(reader: StreamReader, width: number, height: number): MapSections {
+		const sections: MapSections = {};
+		const hasLayers = reader.readBoolean();
+		const hasExtensions = reader.readBoolean();
+		const hasTileLayers = reader.readBoolean(); //older encoders wrote this bit as reserved 0
+		reader.readBits(5); // reserved for future use
+		if (hasLayers) {
+			Object.assign(sections, layerCodec.read(reader, width, height));
+		}
+		if (hasExtensions) {
+			sections.extensions = extensionRegistry.readChunks(reader);
+		}
+		if (hasTileLayers) {
+			sections.tileLayers = tileLayerCodec.read(reader, width, height);
+		}
+		return sections;
+	}
+
+	/**
+	 * Version 0 maps carry no metadata, they receive an empty metadata object when upgraded
+	 */
+	upgrade(data: RawMapData): RawMapData {
+		return {...data, metadata: data.metadata ?? {}};
+	}
+
+	/**
+	 * Reads the metadata block following the dimensions
+	 * @param _reader reader to use
+	 * @returns metadata, or undefined if this version has none
+	 * @protected
+	 */
+	protected readMetadata(_reader: StreamReader): MapMetadata | undefined {
+		return undefined;
+	}
+}
\ No newline at end of file
@@ -0,0 +1,19 @@
+import type {MapMetadata, RawMapData} from "../../MapCodec";
+import type {StreamReader} from "../util/StreamReader";
+import {Version0Decoder} from "./Version0Decoder";
+import {metadataCodec} from "../MetadataCodec";
+
+/**
+ * Adds the metadata block after the dimensions
+ */
+export class Version1Decoder extends Version0Decoder {
+	override readonly version: number = 1;
+
+	override upgrade(data: RawMapData): RawMapData {
+		return data;
+	}
+
+	protected override readMetadata(reader: StreamReader): MapMetadata {
+		return metadataCodec.read(reader);
+	}
+}
\ No newline at end of file
@@ -0,0 +1,23 @@
+import {Version1Decoder} from "./Version1Decoder";
+import {Crc32} from "../util/Crc32";
+import {ChecksumException, TruncatedDataException} from "../util/CodecException";
+
+/**
+ * Appends a CRC32 of all preceding bytes as a 32-bit little-endian trailer
+ */
+export class Version2Decoder extends Version1Decoder {
+	override readonly version: number = 2;
+	override readonly hasChecksum: boolean = true;
+
+	override verify(data: Uint8Array): Uint8Array {
+		if (data.length < 4) {
+			throw new TruncatedDataException("Map data is too short to contain a checksum");
+		}
+		const payload = data.subarray(0, data.length - 4);
+		const expected = new DataView(data.buffer, data.byteOffset + payload.length, 4).getUint32(0, true);
+		if (Crc32.compute(payload) !== expected) {
+			throw new ChecksumException("Checksum mismatch, the map data is corrupted or truncated");
+		}
+		return payload;
+	}
+}
\ No newline at end of file
@@ -0,0 +1,9 @@
+import {Version2Decoder} from "./Version2Decoder";
+
+/**
+ * Stores strings as utf-8 with a byte length prefix sized to the maximum length
+ */
+export class Version3Decoder extends Version2Decoder {
+	override readonly version: number = 3;
+	protected override readonly legacyStrings: boolean = false;
+}
\ No newline at end of file
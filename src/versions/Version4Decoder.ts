@@ -0,0 +1,8 @@
+import {Version3Decoder} from "./Version3Decoder";
+
+/**
+ * Allows entropy coded lines, flagged by the formerly reserved bit after the fill direction
+ */
+export class Version4Decoder extends Version3Decoder {
+	override readonly version: number = 4;
+}
\ No newline at end of file
@@ -0,0 +1,8 @@
+import {Version4Decoder} from "./Version4Decoder";
+
+/**
+ * Stores the chunk size and maximum line length in the formerly reserved byte of the compression header
+ */
+export class Version5Decoder extends Version4Decoder {
+	override readonly version: number = 5;
+}
\ No newline at end of file
@@ -0,0 +1,9 @@
+import {Version5Decoder} from "./Version5Decoder";
+
+/**
+ * Lets the type map reference a registered palette, flagged by a new bit before the type count
+ */
+export class Version6Decoder extends Version5Decoder {
+	override readonly version: number = 6;
+	protected override readonly hasPalettes: boolean = true;
+}
\ No newline at end of file
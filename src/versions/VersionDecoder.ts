@@ -0,0 +1,52 @@
+import type {MapSections, MapSummary, RawMapData} from "../../MapCodec";
+import type {StreamReader} from "../util/StreamReader";
+import type {PaletteRegistry} from "../PaletteRegistry";
+
+export interface VersionDecoder {
+	/** Format version this decoder reads */
+	readonly version: number;
+	/** Whether maps of this version end with a CRC32 trailer */
+	readonly hasChecksum: boolean;
+
+	/**
+	 * Checks the integrity of an encoded map of this version
+	 * @param data complete encoded map
+	 * @returns map data without any integrity trailer
+	 * @throws ChecksumException if the map data is corrupted
+	 */
+	verify(data: Uint8Array): Uint8Array;
+
+	/**
+	 * Reads a map payload of this version
+	 * @param reader reader positioned right after the version bits
+	 * @param palettes registry to resolve palette references from
+	 * @returns map data in the shape of this version
+	 * @throws UnknownPaletteException if the map uses a palette that is not in the registry
+	 */
+	decode(reader: StreamReader, palettes: PaletteRegistry): RawMapData;
+
+	/**
+	 * Reads only the header of a map payload of this version, skipping the tiles
+	 * @param reader reader positioned right after the version bits
+	 * @param palettes registry to resolve palette references from
+	 * @returns summary of the map
+	 * @throws UnknownPaletteException if the map uses a palette that is not in the registry
+	 */
+	inspect(reader: StreamReader, palettes: PaletteRegistry): MapSummary;
+
+	/**
+	 * Reads the optional sections following the lines
+	 * @param reader reader positioned right after the last line
+	 * @param width map width
+	 * @param height map height
+	 * @returns decoded sections
+	 */
+	readSections(reader: StreamReader, width: number, height: number): MapSections;
+
+	/**
+	 * Converts map data of this version into the shape of the next version
+	 * @param data map data decoded by this or an older version
+	 * @returns upgraded map data
+	 */
+	upgrade(data: RawMapData): RawMapData;
+}
\ No newline at end of file